@@ -0,0 +1,50 @@
+// src/config/apiKeys.test.ts
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ApiKeySchema, canUseTool, findApiKey, type ApiKey } from "./apiKeys.js";
+
+const laptop: ApiKey = ApiKeySchema.parse({ name: "laptop", key: "laptop-secret-0000000001" });
+const ci: ApiKey = ApiKeySchema.parse({ name: "ci", key: "ci-secret-00000000000002", tools: ["architect", "code-review"] });
+
+describe("findApiKey", () => {
+  it("finds the key that matches", () => {
+    assert.equal(findApiKey([laptop, ci], "ci-secret-00000000000002"), ci);
+    assert.equal(findApiKey([laptop, ci], "laptop-secret-0000000001"), laptop);
+  });
+
+  it("rejects an unknown key", () => {
+    assert.equal(findApiKey([laptop, ci], "something-else"), undefined);
+    assert.equal(findApiKey([laptop, ci], ""), undefined);
+    assert.equal(findApiKey([], "laptop-secret-0000000001"), undefined);
+  });
+
+  it("rejects a wrong key of the same length", () => {
+    const wrong = "laptop-secret-0000000009";
+    assert.equal(wrong.length, laptop.key.length);
+    assert.equal(findApiKey([laptop, ci], wrong), undefined);
+  });
+
+  it("does not match on a prefix of a key", () => {
+    assert.equal(findApiKey([laptop], laptop.key.slice(0, -1)), undefined);
+    assert.equal(findApiKey([laptop], `${laptop.key}x`), undefined);
+  });
+});
+
+describe("canUseTool", () => {
+  it("allows every tool with the default wildcard scope", () => {
+    assert.deepEqual(laptop.tools, ["*"]);
+    for (const tool of ["architect", "query", "screenshot", "not-a-tool"]) {
+      assert.equal(canUseTool(laptop, tool), true);
+    }
+  });
+
+  it("allows only the listed tools with a restricted scope", () => {
+    assert.equal(canUseTool(ci, "architect"), true);
+    assert.equal(canUseTool(ci, "code-review"), true);
+    assert.equal(canUseTool(ci, "query"), false);
+    assert.equal(canUseTool(ci, "apitests"), false);
+    // Scopes are exact tool names, not prefixes
+    assert.equal(canUseTool(ci, "code"), false);
+  });
+});
@@ -0,0 +1,42 @@
+// src/config/apiKeys.ts
+
+/**
+ * API keys for HTTP mode
+ *   - Loaded by the config loader (config file, MCP_API_KEYS_FILE, MCP_API_KEYS or MCP_API_KEY)
+ *   - Each key has a name (used in logs, never the secret) and the list of tools it may list and call
+ */
+
+import { createHash, timingSafeEqual } from "crypto";
+import { z } from "zod";
+
+// "*" grants every tool
+export const ApiKeySchema = z.object({
+  name: z.string().min(1, "Each API key needs a name."),
+  key: z.string().min(16, "API keys must be at least 16 characters."),
+  tools: z.array(z.string().min(1)).default(["*"]),
+});
+export const ApiKeysFileSchema = z.object({
+  keys: z.array(ApiKeySchema),
+});
+
+export type ApiKey = z.infer<typeof ApiKeySchema>;
+
+// Compare a presented key against every configured key in constant time
+export function findApiKey(keys: ApiKey[], presented: string): ApiKey | undefined {
+  // Hashing first gives equal-length buffers, as timingSafeEqual requires
+  const presentedHash = createHash("sha256").update(presented).digest();
+  let match: ApiKey | undefined;
+  for (const candidate of keys) {
+    const candidateHash = createHash("sha256").update(candidate.key).digest();
+    // No early exit, so timing does not reveal which key matched
+    if (timingSafeEqual(presentedHash, candidateHash) && !match) {
+      match = candidate;
+    }
+  }
+  return match;
+}
+
+// Whether a key's scopes allow a given tool
+export function canUseTool(apiKey: ApiKey, toolName: string): boolean {
+  return apiKey.tools.includes("*") || apiKey.tools.includes(toolName);
+}
@@ -1,16 +1,43 @@
-// src/env/config.ts
+// src/config/config.ts
 
 /**
  * General application configuration for the MCP server
+ *   - Loaded once at startup from defaults, config file, environment and CLI flags (see loader.ts)
+ *   - Invalid configuration stops the server with a message listing every problem
  */
 
+import { loadConfig, ConfigError, type Config } from "./loader.js";
+
+function loadConfigOrExit(): Config {
+  try {
+    return loadConfig();
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(`Configuration error: ${error.message}`);
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
+// The validated configuration
+const config = loadConfigOrExit();
 
 // Flags
-const HTTP_MODE_ENABLED = true;
+const HTTP_MODE_ENABLED = config.server.httpEnabled;
 
 // Server
-const PORT = 3333;
+const PORT = config.server.port;
+
+// Database (enables the PostgreSQL query tool and table schema resources when set)
+const DATABASE_URL = config.database.url;
+
+// Per-tool timeouts (milliseconds)
+const TIMEOUTS = config.timeouts;
+
+// Browser pool for the screenshot tool
+const BROWSER = config.browser;
 
 
 // Export the config
-export { HTTP_MODE_ENABLED, PORT };
\ No newline at end of file
+export { config, HTTP_MODE_ENABLED, PORT, DATABASE_URL, TIMEOUTS, BROWSER };
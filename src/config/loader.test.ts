@@ -0,0 +1,117 @@
+// src/config/loader.test.ts
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { ConfigError, loadConfig } from "./loader.js";
+
+const KEY = "0123456789abcdef0123";
+
+describe("loadConfig", () => {
+  let dir: string;
+  // Write a config file into a fresh directory and return that directory
+  const withConfigFile = (name: string, content: string): string => {
+    const cwd = fs.mkdtempSync(path.join(dir, "case-"));
+    fs.writeFileSync(path.join(cwd, name), content);
+    return cwd;
+  };
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-config-test-"));
+  });
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("uses the defaults without a config file, environment or flags", () => {
+    const config = loadConfig({ argv: [], env: {}, cwd: dir });
+    assert.equal(config.server.port, 3333);
+    assert.equal(config.server.httpEnabled, true);
+    assert.deepEqual(config.workspace.roots, []);
+    assert.equal(config.configFile, undefined);
+  });
+
+  it("lets the config file override defaults, the environment the file, and flags the environment", () => {
+    const cwd = withConfigFile("mcp-server.config.json", JSON.stringify({ server: { port: 4000 }, database: { url: "postgres://file" } }));
+    assert.equal(loadConfig({ argv: [], env: {}, cwd }).server.port, 4000);
+    assert.equal(loadConfig({ argv: [], env: { MCP_PORT: "5000" }, cwd }).server.port, 5000);
+
+    const config = loadConfig({ argv: ["--port", "6000"], env: { MCP_PORT: "5000", DATABASE_URL: "postgres://env" }, cwd });
+    assert.equal(config.server.port, 6000);
+    assert.equal(config.database.url, "postgres://env");
+    assert.equal(config.configFile, path.join(cwd, "mcp-server.config.json"));
+  });
+
+  it("merges nested sections instead of replacing them", () => {
+    const cwd = withConfigFile("mcp-server.config.yaml", "ai:\n  retry:\n    initialDelayMs: 50\n");
+    const config = loadConfig({ argv: [], env: { MCP_RETRY_MAX_ATTEMPTS: "5" }, cwd });
+    assert.equal(config.ai.retry.initialDelayMs, 50);
+    assert.equal(config.ai.retry.maxAttempts, 5);
+    assert.equal(config.ai.retry.maxDelayMs, 20_000);
+  });
+
+  it("reads the file named by --config before MCP_CONFIG", () => {
+    const cwd = withConfigFile("custom.json", JSON.stringify({ server: { port: 4100 } }));
+    fs.writeFileSync(path.join(cwd, "other.json"), JSON.stringify({ server: { port: 4200 } }));
+    assert.equal(loadConfig({ argv: ["--config=custom.json"], env: { MCP_CONFIG: "other.json" }, cwd }).server.port, 4100);
+    assert.equal(loadConfig({ argv: [], env: { MCP_CONFIG: "other.json" }, cwd }).server.port, 4200);
+  });
+
+  it("resolves relative workspace roots against the config file's directory", () => {
+    const cwd = withConfigFile("mcp-server.config.json", JSON.stringify({ workspace: { roots: ["projects", "/srv/app"] } }));
+    const fromFile = loadConfig({ argv: ["--config", path.join(cwd, "mcp-server.config.json")], env: {}, cwd: dir });
+    assert.deepEqual(fromFile.workspace.roots, [path.join(cwd, "projects"), "/srv/app"]);
+    const fromEnv = loadConfig({ argv: [], env: { MCP_WORKSPACE_ROOTS: "a, b" }, cwd: dir });
+    assert.deepEqual(fromEnv.workspace.roots, [path.join(dir, "a"), path.join(dir, "b")]);
+  });
+
+  it("allows apitests verify by default in stdio mode only", () => {
+    assert.equal(loadConfig({ argv: [], env: {}, cwd: dir }).tools.apitests.allowVerify, true);
+    assert.equal(loadConfig({ argv: ["--http"], env: {}, cwd: dir }).tools.apitests.allowVerify, false);
+    // --http without server.httpEnabled runs over stdio
+    assert.equal(loadConfig({ argv: ["--http"], env: { MCP_HTTP_ENABLED: "false" }, cwd: dir }).tools.apitests.allowVerify, true);
+    assert.equal(loadConfig({ argv: ["--http"], env: { MCP_APITESTS_ALLOW_VERIFY: "true" }, cwd: dir }).tools.apitests.allowVerify, true);
+    const cwd = withConfigFile("mcp-server.config.json", JSON.stringify({ tools: { apitests: { allowVerify: false } } }));
+    assert.equal(loadConfig({ argv: [], env: {}, cwd }).tools.apitests.allowVerify, false);
+  });
+
+  it("collects API keys from the environment", () => {
+    const config = loadConfig({
+      argv: [],
+      env: { MCP_API_KEY: KEY, MCP_API_KEYS: JSON.stringify({ keys: [{ name: "ci", key: `${KEY}ci`, tools: ["apitests"] }] }) },
+      cwd: dir,
+    });
+    assert.deepEqual(config.auth.apiKeys.map((apiKey) => [apiKey.name, apiKey.tools]), [["ci", ["apitests"]], ["default", ["*"]]]);
+  });
+
+  it("reports invalid values with their path", () => {
+    assert.throws(() => loadConfig({ argv: [], env: { MCP_PORT: "abc" }, cwd: dir }), (error: unknown) => {
+      assert.ok(error instanceof ConfigError);
+      assert.match(error.message, /server\.port/);
+      return true;
+    });
+    assert.throws(() => loadConfig({ argv: ["--port", "70000"], env: {}, cwd: dir }), /server\.port/);
+  });
+
+  it("rejects unreadable, unparsable and non-object config files", () => {
+    assert.throws(() => loadConfig({ argv: ["--config", "missing.json"], env: {}, cwd: dir }), /Cannot read config file/);
+    const broken = withConfigFile("mcp-server.config.json", "{ not json");
+    assert.throws(() => loadConfig({ argv: [], env: {}, cwd: broken }), /Cannot parse config file/);
+    const list = withConfigFile("mcp-server.config.yaml", "- a\n- b\n");
+    assert.throws(() => loadConfig({ argv: [], env: {}, cwd: list }), /expected an object at the top level/);
+  });
+
+  it("rejects unknown providers and duplicate API key names", () => {
+    assert.throws(
+      () => loadConfig({ argv: [], env: { MCP_PROVIDER_ARCHITECT: "nope" }, cwd: dir }),
+      /ai\.toolProviders\.architect: unknown provider "nope"/,
+    );
+    assert.throws(
+      () => loadConfig({ argv: [], env: { MCP_API_KEY: KEY, MCP_API_KEYS: JSON.stringify({ keys: [{ name: "default", key: `${KEY}x` }] }) }, cwd: dir }),
+      /duplicate API key name "default"/,
+    );
+    assert.throws(() => loadConfig({ argv: [], env: { MCP_API_KEYS: "[" }, cwd: dir }), /Invalid JSON in MCP_API_KEYS/);
+  });
+});
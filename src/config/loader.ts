@@ -0,0 +1,387 @@
+// src/config/loader.ts
+
+/**
+ * Configuration loader
+ *   - Merges, in increasing priority: defaults < config file (JSON/YAML) < environment variables < CLI flags
+ *   - Validates the result with zod and reports every invalid value at once
+ */
+
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import YAML from "yaml";
+import { ApiKeySchema, ApiKeysFileSchema } from "./apiKeys.js";
+
+// Default model for every model-backed tool (options: o3-mini, o1-mini, o1)
+const DEFAULT_MODEL = "o3-mini";
+
+// Providers that exist without being declared under ai.providers
+export const BUILT_IN_PROVIDERS = ["openai", "anthropic", "fake"];
+
+// Config files picked up from the working directory when no --config / MCP_CONFIG is given
+const DEFAULT_CONFIG_FILES = ["mcp-server.config.json", "mcp-server.config.yaml", "mcp-server.config.yml"];
+
+// LLM providers; "openai", "anthropic" and "fake" always exist, more can be added under ai.providers
+export const ProviderConfigSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("openai"),
+    apiKey: z.string().optional(),
+    baseUrl: z.string().url().optional(),
+  }),
+  // Local or third-party servers speaking the OpenAI chat API (Ollama, llama.cpp, vLLM, ...)
+  z.object({
+    type: z.literal("openai-compatible"),
+    baseUrl: z.string().url(),
+    apiKey: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("anthropic"),
+    apiKey: z.string().optional(),
+    baseUrl: z.string().url().optional(),
+    maxTokens: z.number().int().positive().default(8192),
+  }),
+  // Deterministic offline provider: replays `responses` in order, or echoes the prompt when empty
+  z.object({
+    type: z.literal("fake"),
+    responses: z.array(z.string()).default([]),
+  }),
+]);
+
+export type ProviderConfig = z.infer<typeof ProviderConfigSchema>;
+
+const ProviderNameSchema = z.string().min(1).default("openai");
+
+const TimeoutSchema = z.number().int().positive("Timeouts must be a positive number of milliseconds.");
+
+export const ConfigSchema = z.object({
+  server: z.object({
+    httpEnabled: z.boolean().default(true),
+    port: z.number().int().min(1).max(65535).default(3333),
+    // A Streamable HTTP session with no request for this long is closed; 0 keeps it until the client ends it
+    sessionIdleTimeoutMs: z.number().int().nonnegative().default(1_800_000),
+  }).default({}),
+  ai: z.object({
+    openaiApiKey: z.string().optional(),
+    anthropicApiKey: z.string().optional(),
+    providers: z.record(z.string(), ProviderConfigSchema).default({}),
+    // Provider used by each model-backed tool (a key of ai.providers or a built-in provider)
+    toolProviders: z.object({
+      architect: ProviderNameSchema,
+      codeReview: ProviderNameSchema,
+      apiTestGenerator: ProviderNameSchema,
+    }).default({}),
+    // Retries for transient model errors (429, 5xx, connection failures), with exponential backoff
+    retry: z.object({
+      maxAttempts: z.number().int().min(1).default(3),
+      initialDelayMs: z.number().int().nonnegative().default(1_000),
+      maxDelayMs: z.number().int().nonnegative().default(20_000),
+    }).default({}),
+    models: z.object({
+      architect: z.string().min(1).default(DEFAULT_MODEL),
+      codeReview: z.string().min(1).default(DEFAULT_MODEL),
+      apiTestGenerator: z.string().min(1).default(DEFAULT_MODEL),
+    }).default({}),
+  }).default({}),
+  database: z.object({
+    url: z.string().default(""),
+  }).default({}),
+  auth: z.object({
+    apiKeys: z.array(ApiKeySchema).default([]),
+  }).default({}),
+  timeouts: z.object({
+    screenshot: TimeoutSchema.default(30_000),
+    architect: TimeoutSchema.default(120_000),
+    // Applies to each chunk of a model-backed code review
+    codeReview: TimeoutSchema.default(120_000),
+    // Applies to each of tsc, ESLint and Prettier run by the code review
+    codeReviewChecks: TimeoutSchema.default(300_000),
+    apiTestGenerator: TimeoutSchema.default(180_000),
+    // Applies to each type-check and test run when apitests verifies its output
+    apiTestVerify: TimeoutSchema.default(300_000),
+  }).default({}),
+  // Headless Chromium shared by the screenshot tool (see src/tools/browserPool.ts)
+  browser: z.object({
+    // Chromium processes kept by the pool; pages are spread over them
+    maxBrowsers: z.number().int().min(1).default(1),
+    // Screenshots rendered at the same time across all browsers; further calls wait for a free page
+    maxConcurrentPages: z.number().int().min(1).default(4),
+    // An unused browser is closed after this long; 0 keeps it until shutdown
+    idleTimeoutMs: z.number().int().nonnegative().default(300_000),
+    // Launch a browser at startup so the first screenshot does not pay the cold start
+    prewarm: z.boolean().default(false),
+  }).default({}),
+  screenshot: z.object({
+    // Named baselines for visual regression checks (`<name>.png`)
+    baselineDir: z.string().min(1).default(".screenshot-baselines"),
+  }).default({}),
+  workspace: z.object({
+    // Directories that tool path arguments must resolve inside; empty allows any path
+    roots: z.array(z.string().min(1)).default([]),
+  }).default({}),
+  tools: z.object({
+    // Tool names (e.g. "screenshot", "query") that are not registered at all
+    disabled: z.array(z.string().min(1)).default([]),
+    apitests: z.object({
+      // Whether `verify: true` may run generated code; unset allows it in stdio mode and refuses it in HTTP mode
+      allowVerify: z.boolean().optional(),
+    }).default({}),
+  }).default({}),
+});
+
+export type Config = z.infer<typeof ConfigSchema>;
+
+// Thrown for any unreadable or invalid configuration
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+// An unvalidated partial config, as read from a file, the environment or the command line
+type RawConfig = Record<string, unknown>;
+
+function isRawConfig(value: unknown): value is RawConfig {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+// Recursively merge `override` into `base` (arrays and scalars are replaced, not merged)
+function deepMerge(base: RawConfig, override: RawConfig): RawConfig {
+  const merged: RawConfig = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) continue;
+    const current = merged[key];
+    merged[key] = isRawConfig(value) && isRawConfig(current) ? deepMerge(current, value) : value;
+  }
+  return merged;
+}
+
+// "true"/"1" and "false"/"0"; anything else is passed through so validation reports it
+function parseBoolean(value: string | undefined): boolean | string | undefined {
+  if (value === undefined) return undefined;
+  if (/^(true|1)$/i.test(value)) return true;
+  if (/^(false|0)$/i.test(value)) return false;
+  return value;
+}
+
+// Numbers are converted here; "abc" becomes NaN and is reported by validation
+function parseNumber(value: string | undefined): number | undefined {
+  return value === undefined ? undefined : Number(value);
+}
+
+function parseList(value: string | undefined): string[] | undefined {
+  return value === undefined ? undefined : value.split(",").map((item) => item.trim()).filter(Boolean);
+}
+
+// Read a JSON or YAML document, choosing the parser by extension
+function readConfigFile(filePath: string): RawConfig {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(filePath, "utf-8");
+  } catch (error) {
+    throw new ConfigError(`Cannot read config file ${filePath}: ${error}`);
+  }
+  let parsed: unknown;
+  try {
+    parsed = /\.ya?ml$/i.test(filePath) ? YAML.parse(raw) : JSON.parse(raw);
+  } catch (error) {
+    throw new ConfigError(`Cannot parse config file ${filePath}: ${error}`);
+  }
+  // An empty file is an empty config
+  if (parsed === null || parsed === undefined) return {};
+  if (!isRawConfig(parsed)) {
+    throw new ConfigError(`Invalid config file ${filePath}: expected an object at the top level`);
+  }
+  return parsed;
+}
+
+// Read an API keys document ({ "keys": [...] }) from a string
+function readApiKeys(raw: string, source: string): unknown[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (error) {
+    throw new ConfigError(`Invalid JSON in ${source}: ${error}`);
+  }
+  const result = ApiKeysFileSchema.safeParse(json);
+  if (!result.success) {
+    throw new ConfigError(`Invalid API keys in ${source}: ${formatIssues(result.error)}`);
+  }
+  return result.data.keys;
+}
+
+// Map environment variables onto the config shape
+function fromEnv(env: NodeJS.ProcessEnv): RawConfig {
+  const apiKeys: unknown[] = [];
+  if (env.MCP_API_KEYS_FILE) {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(env.MCP_API_KEYS_FILE, "utf-8");
+    } catch (error) {
+      throw new ConfigError(`Cannot read MCP_API_KEYS_FILE ${env.MCP_API_KEYS_FILE}: ${error}`);
+    }
+    apiKeys.push(...readApiKeys(raw, env.MCP_API_KEYS_FILE));
+  }
+  if (env.MCP_API_KEYS) {
+    apiKeys.push(...readApiKeys(env.MCP_API_KEYS, "MCP_API_KEYS"));
+  }
+  if (env.MCP_API_KEY) {
+    apiKeys.push({ name: "default", key: env.MCP_API_KEY });
+  }
+
+  return {
+    server: {
+      httpEnabled: parseBoolean(env.MCP_HTTP_ENABLED),
+      port: parseNumber(env.MCP_PORT),
+      sessionIdleTimeoutMs: parseNumber(env.MCP_SESSION_IDLE_TIMEOUT),
+    },
+    ai: {
+      openaiApiKey: env.OPENAI_API_KEY,
+      anthropicApiKey: env.ANTHROPIC_API_KEY,
+      toolProviders: {
+        architect: env.MCP_PROVIDER_ARCHITECT,
+        codeReview: env.MCP_PROVIDER_CODE_REVIEW,
+        apiTestGenerator: env.MCP_PROVIDER_API_TEST_GENERATOR,
+      },
+      retry: {
+        maxAttempts: parseNumber(env.MCP_RETRY_MAX_ATTEMPTS),
+      },
+      models: {
+        architect: env.MCP_MODEL_ARCHITECT,
+        codeReview: env.MCP_MODEL_CODE_REVIEW,
+        apiTestGenerator: env.MCP_MODEL_API_TEST_GENERATOR,
+      },
+    },
+    database: {
+      url: env.DATABASE_URL,
+    },
+    auth: {
+      apiKeys: apiKeys.length > 0 ? apiKeys : undefined,
+    },
+    timeouts: {
+      screenshot: parseNumber(env.MCP_TIMEOUT_SCREENSHOT),
+      architect: parseNumber(env.MCP_TIMEOUT_ARCHITECT),
+      codeReview: parseNumber(env.MCP_TIMEOUT_CODE_REVIEW),
+      codeReviewChecks: parseNumber(env.MCP_TIMEOUT_CODE_REVIEW_CHECKS),
+      apiTestGenerator: parseNumber(env.MCP_TIMEOUT_API_TEST_GENERATOR),
+      apiTestVerify: parseNumber(env.MCP_TIMEOUT_API_TEST_VERIFY),
+    },
+    browser: {
+      maxBrowsers: parseNumber(env.MCP_BROWSER_MAX_BROWSERS),
+      maxConcurrentPages: parseNumber(env.MCP_BROWSER_MAX_CONCURRENT_PAGES),
+      idleTimeoutMs: parseNumber(env.MCP_BROWSER_IDLE_TIMEOUT),
+      prewarm: parseBoolean(env.MCP_BROWSER_PREWARM),
+    },
+    screenshot: {
+      baselineDir: env.MCP_SCREENSHOT_BASELINE_DIR,
+    },
+    workspace: {
+      roots: parseList(env.MCP_WORKSPACE_ROOTS),
+    },
+    tools: {
+      disabled: parseList(env.MCP_DISABLED_TOOLS),
+      apitests: {
+        allowVerify: parseBoolean(env.MCP_APITESTS_ALLOW_VERIFY),
+      },
+    },
+  };
+}
+
+// Read the value following a flag, accepting both `--flag value` and `--flag=value`
+function flagValue(argv: string[], flag: string): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === flag) {
+      const value = argv[i + 1];
+      if (value === undefined || value.startsWith("--")) {
+        throw new ConfigError(`Missing value for ${flag}`);
+      }
+      return value;
+    }
+    if (argv[i].startsWith(`${flag}=`)) {
+      return argv[i].slice(flag.length + 1);
+    }
+  }
+  return undefined;
+}
+
+// Map CLI flags onto the config shape (--http itself only selects the transport, see src/index.ts)
+function fromArgv(argv: string[]): RawConfig {
+  return {
+    server: {
+      port: parseNumber(flagValue(argv, "--port")),
+    },
+    database: {
+      url: flagValue(argv, "--database-url"),
+    },
+    workspace: {
+      roots: parseList(flagValue(argv, "--workspace-roots")),
+    },
+    tools: {
+      disabled: parseList(flagValue(argv, "--disable-tools")),
+    },
+  };
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    .join("; ");
+}
+
+// Locate the config file: --config, then MCP_CONFIG, then the defaults in `cwd`
+function findConfigFile(argv: string[], env: NodeJS.ProcessEnv, cwd: string): string | undefined {
+  const explicit = flagValue(argv, "--config") ?? env.MCP_CONFIG;
+  if (explicit) {
+    return path.resolve(cwd, explicit);
+  }
+  return DEFAULT_CONFIG_FILES
+    .map((file) => path.join(cwd, file))
+    .find((file) => fs.existsSync(file));
+}
+
+export interface LoadConfigOptions {
+  argv?: string[];
+  env?: NodeJS.ProcessEnv;
+  cwd?: string;
+}
+
+// Build the validated configuration from every source
+export function loadConfig(options: LoadConfigOptions = {}): Config & { configFile?: string } {
+  const { argv = process.argv.slice(2), env = process.env, cwd = process.cwd() } = options;
+
+  const configFile = findConfigFile(argv, env, cwd);
+  const fileConfig = configFile ? readConfigFile(configFile) : {};
+  const merged = [fromEnv(env), fromArgv(argv)].reduce(deepMerge, fileConfig);
+
+  const result = ConfigSchema.safeParse(merged);
+  if (!result.success) {
+    throw new ConfigError(`Invalid configuration${configFile ? ` (file: ${configFile})` : ""}: ${formatIssues(result.error)}`);
+  }
+
+  const providerNames = new Set([...BUILT_IN_PROVIDERS, ...Object.keys(result.data.ai.providers)]);
+  for (const [tool, provider] of Object.entries(result.data.ai.toolProviders)) {
+    if (!providerNames.has(provider)) {
+      throw new ConfigError(`Invalid configuration: ai.toolProviders.${tool}: unknown provider "${provider}" (known: ${[...providerNames].join(", ")})`);
+    }
+  }
+
+  const names = new Set<string>();
+  for (const { name } of result.data.auth.apiKeys) {
+    if (names.has(name)) {
+      throw new ConfigError(`Invalid configuration: duplicate API key name "${name}"`);
+    }
+    names.add(name);
+  }
+
+  // Relative workspace roots (and the baseline directory) are relative to the config file's directory,
+  // or the working directory without one
+  const rootsBase = configFile ? path.dirname(configFile) : cwd;
+  const workspace = { roots: result.data.workspace.roots.map((root) => path.resolve(rootsBase, root)) };
+  const screenshot = { baselineDir: path.resolve(rootsBase, result.data.screenshot.baselineDir) };
+
+  // Remote clients must not get generated code executed on this machine unless the operator opts in
+  const httpMode = result.data.server.httpEnabled && argv.includes("--http");
+  const tools = { ...result.data.tools, apitests: { allowVerify: result.data.tools.apitests.allowVerify ?? !httpMode } };
+
+  return { ...result.data, workspace, screenshot, tools, configFile };
+}
@@ -1,86 +1,297 @@
 // src/httpServer.ts
 import express from 'express';
 import cors from 'cors';
+import { randomUUID } from 'crypto';
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
-import { PORT } from './config/config.js';
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { config, PORT } from './config/config.js';
+import { findApiKey, canUseTool, type ApiKey } from './config/apiKeys.js';
+import type { McpServerOptions } from './server.js';
+import { postgresqlToolName } from './tools/postgresql.js';
+import logger from './utils/logger.js';
+
+/**
+ * HTTP mode
+ *   - Streamable HTTP transport: POST/GET/DELETE /mcp with an `mcp-session-id` header
+ *   - Legacy SSE transport: GET /mcp (no session header) opens the stream, POST /mcp/message sends messages
+ *   - Every session gets its own MCP Server instance from `createServer`, closed when the session ends;
+ *     Streamable HTTP sessions also end after `server.sessionIdleTimeoutMs` without a request
+ *   - Requests need a configured `x-api-key`; each session is bound to its key and limited to that key's tools
+ *     (401 = missing/unknown key, 403 = valid key but tool or session not permitted)
+ *   - Bodies are parsed only after the key check, up to 4 MB; malformed JSON answers a JSON-RPC parse error (400)
+ *   - A handler that throws answers 500 (when nothing was sent yet) instead of leaving the request hanging
+ */
+
+const MAX_BODY_SIZE = '4mb';
+
+
+// One connected client session
+interface Session {
+  apiKey: ApiKey;
+  server: Server;
+  transport: SSEServerTransport | StreamableHTTPServerTransport;
+  idleTimer?: NodeJS.Timeout;
+}
+
+export function startHttpServer(
+  createServer: (options: McpServerOptions) => Server,
+  port: number = PORT,
+  apiKeys: ApiKey[] = config.auth.apiKeys,
+) {
+  if (apiKeys.length === 0) {
+    throw new Error("HTTP mode requires at least one API key. Set MCP_API_KEY, MCP_API_KEYS, MCP_API_KEYS_FILE or auth.apiKeys in the config file.");
+  }
+  logger.info(`Loaded ${apiKeys.length} API key(s): ${apiKeys.map((apiKey) => apiKey.name).join(', ')}`);
+  // Without roots a remote client could pass any path on this machine to the tools
+  if (config.workspace.roots.length === 0) {
+    throw new Error("HTTP mode requires at least one workspace root. Set workspace.roots in the config file, MCP_WORKSPACE_ROOTS or --workspace-roots.");
+  }
 
-export function startHttpServer(mcpServer: Server, port: number = PORT) {
   const app = express();
-  const sessions = new Map<string, SSEServerTransport>();
-  
+  const sessions = new Map<string, Session>();
+
   // Configure middleware
-  app.use(cors());
-  app.use(express.json());
-  
-  // Simple authentication middleware (basic example - enhance for production)
+  app.use(cors({ exposedHeaders: ['mcp-session-id'] }));
+
+  // Authentication middleware: resolves the x-api-key header to a configured key
   const apiKeyMiddleware = (req: express.Request, res: express.Response, next: express.NextFunction) => {
-    const apiKey = req.headers['x-api-key'];
-    
-    // Add proper API key validation logic here
+    const presented = req.headers['x-api-key'];
+    if (typeof presented !== 'string' || !presented) {
+      return res.status(401).json({ error: 'api_key_required', message: 'API key required' });
+    }
+
+    const apiKey = findApiKey(apiKeys, presented);
     if (!apiKey) {
-      return res.status(401).json({ error: 'API key required' });
+      logger.warning(`Rejected request with unknown API key from ${req.ip}`);
+      return res.status(401).json({ error: 'invalid_api_key', message: 'Invalid API key' });
     }
-    
-    // In production, validate against stored keys
+
+    res.locals.apiKey = apiKey;
     next();
   };
-  
+
+  // JSON bodies for the POST routes, after apiKeyMiddleware so unauthenticated requests are not parsed
+  const parseJsonBody = express.json({ limit: MAX_BODY_SIZE });
+
+  // body-parser errors as JSON-RPC errors: 400 parse error for malformed JSON, its own status (e.g. 413) otherwise
+  const jsonBodyErrors = (error: unknown, req: express.Request, res: express.Response, next: express.NextFunction) => {
+    if (!(error instanceof Error)) return next(error);
+    if ('type' in error && error.type === 'entity.parse.failed') {
+      return res.status(400).json({ jsonrpc: '2.0', error: { code: -32700, message: 'Parse error: invalid JSON' }, id: null });
+    }
+    if ('status' in error && typeof error.status === 'number' && error.status >= 400 && error.status < 500) {
+      return res.status(error.status).json({ jsonrpc: '2.0', error: { code: -32600, message: `Invalid request: ${error.message}` }, id: null });
+    }
+    next(error);
+  };
+
+  // Reject tools/call requests (single or batched) for tools outside the key's scope; resources/* requests are
+  // database schemas, which need the `query` scope
+  const toolScopeMiddleware = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const apiKey: ApiKey = res.locals.apiKey;
+    const messages = Array.isArray(req.body) ? req.body : [req.body];
+    for (const message of messages) {
+      const method = message?.method;
+      if (typeof method === 'string' && method.startsWith('resources/') && !canUseTool(apiKey, postgresqlToolName)) {
+        logger.warning(`API key "${apiKey.name}" is not permitted to use ${method}`);
+        return res.status(403).json({ error: 'tool_forbidden', message: `API key is not permitted to use ${method} (requires "${postgresqlToolName}")` });
+      }
+      const toolName = method === 'tools/call' ? message.params?.name : undefined;
+      if (typeof toolName === 'string' && !canUseTool(apiKey, toolName)) {
+        logger.warning(`API key "${apiKey.name}" is not permitted to call tool "${toolName}"`);
+        return res.status(403).json({ error: 'tool_forbidden', message: `API key is not permitted to call tool "${toolName}"` });
+      }
+    }
+    next();
+  };
+
+  // Sessions may only be used with the key that opened them
+  const sessionBelongsToKey = (session: Session, res: express.Response) => {
+    if (session.apiKey.name !== res.locals.apiKey.name) {
+      res.status(403).json({ error: 'session_forbidden', message: 'Session belongs to a different API key' });
+      return false;
+    }
+    return true;
+  };
+
+  // Create a server instance limited to the tools the key may use
+  const createScopedServer = (apiKey: ApiKey) =>
+    createServer({ canUseTool: (toolName) => canUseTool(apiKey, toolName) });
+
+  // Close a session's server (which also closes its transport) and forget it
+  const closeSession = async (sessionId: string) => {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    sessions.delete(sessionId);
+    clearTimeout(session.idleTimer);
+    try {
+      await session.server.close();
+    } catch (error) {
+      logger.warning(`Failed to close session ${sessionId}: ${error}`);
+    }
+    logger.info(`Session closed: ${sessionId} (${sessions.size} active)`);
+  };
+
+  // Restart a Streamable HTTP session's idle countdown (SSE sessions end with their stream instead)
+  const touchSession = (sessionId: string) => {
+    const session = sessions.get(sessionId);
+    const idleTimeoutMs = config.server.sessionIdleTimeoutMs;
+    if (!session || idleTimeoutMs === 0) return;
+    clearTimeout(session.idleTimer);
+    session.idleTimer = setTimeout(() => {
+      logger.info(`Session ${sessionId} idle for ${idleTimeoutMs}ms`);
+      void closeSession(sessionId);
+    }, idleTimeoutMs);
+    // An idle session does not keep the server alive
+    session.idleTimer.unref();
+  };
+
+  // Look up a Streamable HTTP session from the `mcp-session-id` header; finding it counts as activity
+  const getStreamableSession = (req: express.Request) => {
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId !== 'string') return undefined;
+    const session = sessions.get(sessionId);
+    if (!(session?.transport instanceof StreamableHTTPServerTransport)) return undefined;
+    touchSession(sessionId);
+    return { ...session, transport: session.transport };
+  };
+
+  // Express 4 does not catch rejected async handlers: log the error and answer 500 unless a response was started
+  const catchErrors = (handler: (req: express.Request, res: express.Response) => Promise<unknown>) =>
+    async (req: express.Request, res: express.Response) => {
+      try {
+        await handler(req, res);
+      } catch (error) {
+        logger.error(`${req.method} ${req.path} failed: ${error instanceof Error ? error.stack ?? error.message : error}`);
+        if (!res.headersSent) {
+          res.status(500).json({ jsonrpc: '2.0', error: { code: -32603, message: 'Internal server error' }, id: null });
+        }
+      }
+    };
+
   // Health check endpoint
   app.get('/health', (req, res) => {
-    res.json({ status: 'ok' });
+    res.json({ status: 'ok', sessions: sessions.size });
   });
-  
-  // Handle SSE connections (GET)
-  app.get('/mcp', apiKeyMiddleware, async (req, res) => {
-    // Create SSE transport
+
+  // Streamable HTTP: client-to-server messages (POST)
+  app.post('/mcp', apiKeyMiddleware, parseJsonBody, jsonBodyErrors, toolScopeMiddleware, catchErrors(async (req, res) => {
+    const existing = getStreamableSession(req);
+    if (existing) {
+      if (!sessionBelongsToKey(existing, res)) return;
+      await existing.transport.handleRequest(req, res, req.body);
+      return;
+    }
+
+    if (req.headers['mcp-session-id'] || !isInitializeRequest(req.body)) {
+      return res.status(400).json({
+        jsonrpc: '2.0',
+        error: { code: -32000, message: 'Bad Request: No valid session ID provided' },
+        id: null,
+      });
+    }
+
+    // New session: create a dedicated server and transport for it
+    const apiKey: ApiKey = res.locals.apiKey;
+    const server = createScopedServer(apiKey);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        sessions.set(sessionId, { apiKey, server, transport });
+        touchSession(sessionId);
+        logger.info(`Streamable HTTP session opened for "${apiKey.name}": ${sessionId} (${sessions.size} active)`);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        void closeSession(transport.sessionId);
+      }
+    };
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      // Do not leave a half-opened session behind
+      if (transport.sessionId) await closeSession(transport.sessionId);
+      else await server.close().catch(() => undefined);
+      throw error;
+    }
+  }));
+
+  // GET /mcp: Streamable HTTP notification stream when a session header is present, legacy SSE otherwise
+  app.get('/mcp', apiKeyMiddleware, catchErrors(async (req, res) => {
+    if (req.headers['mcp-session-id']) {
+      const existing = getStreamableSession(req);
+      if (!existing) {
+        return res.status(404).end('Session not found');
+      }
+      if (!sessionBelongsToKey(existing, res)) return;
+      await existing.transport.handleRequest(req, res);
+      return;
+    }
+
+    // Legacy SSE: create a dedicated server and transport for this connection
+    const apiKey: ApiKey = res.locals.apiKey;
+    const server = createScopedServer(apiKey);
     const transport = new SSEServerTransport('/mcp/message', res);
-    
-    // Store the transport by session ID for message routing
-    sessions.set(transport.sessionId, transport);
-    
+    sessions.set(transport.sessionId, { apiKey, server, transport });
+    logger.info(`SSE session opened for "${apiKey.name}": ${transport.sessionId} (${sessions.size} active)`);
+
     // Set up cleanup when connection closes
     res.on('close', () => {
-      sessions.delete(transport.sessionId);
+      void closeSession(transport.sessionId);
     });
-    
-    // Start the SSE connection
-    await transport.start();
-    
-    // Return the transport so it can be connected to the MCP server
-    return transport;
-  });
-  
-  // Handle JSON-RPC messages (POST)
-  app.post('/mcp/message', apiKeyMiddleware, async (req, res) => {
+
+    // Connecting starts the SSE stream
+    try {
+      await server.connect(transport);
+    } catch (error) {
+      await closeSession(transport.sessionId);
+      throw error;
+    }
+  }));
+
+  // Streamable HTTP: explicit session termination (DELETE)
+  app.delete('/mcp', apiKeyMiddleware, catchErrors(async (req, res) => {
+    const existing = getStreamableSession(req);
+    if (!existing) {
+      return res.status(404).end('Session not found');
+    }
+    if (!sessionBelongsToKey(existing, res)) return;
+    await existing.transport.handleRequest(req, res);
+  }));
+
+  // Legacy SSE: client-to-server messages (POST)
+  app.post('/mcp/message', apiKeyMiddleware, parseJsonBody, jsonBodyErrors, toolScopeMiddleware, catchErrors(async (req, res) => {
     const sessionId = req.query.sessionId as string;
     if (!sessionId) {
       return res.status(400).end('Missing sessionId');
     }
-    
-    const transport = sessions.get(sessionId);
-    if (!transport) {
+
+    const session = sessions.get(sessionId);
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
       return res.status(404).end('Session not found');
     }
-    
-    await transport.handlePostMessage(req, res);
-  });
-  
+    if (!sessionBelongsToKey(session, res)) return;
+
+    await session.transport.handlePostMessage(req, res, req.body);
+  }));
+
   // Start HTTP server
-  app.listen(port, () => {
-    console.log(`MCP Server running at http://localhost:${port}/mcp`);
+  const httpServer = app.listen(port, () => {
+    logger.info(`MCP Server listening at http://localhost:${port}/mcp`);
   });
-  
-  // For this version, we'll create a transport and return it
-  // This isn't a perfect implementation but will allow the HTTP mode to be toggled
-  const dummyRes = {
-    writeHead: () => dummyRes,
-    write: () => true,
-    end: () => true,
-    on: () => true,
-  } as any;
-  
-  const transport = new SSEServerTransport('/mcp/message', dummyRes);
-  
-  return transport;
-}
\ No newline at end of file
+
+  return {
+    httpServer,
+    sessionCount: () => sessions.size,
+    // Close every open session, then stop accepting connections
+    close: async () => {
+      await Promise.all(Array.from(sessions.keys()).map(closeSession));
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    },
+  };
+}
@@ -22,202 +22,25 @@ process.on('warning', (warning) => {
  *     3) CodeReview
  */
 
-import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { CallToolRequestSchema, ListToolsRequestSchema,
-} from "@modelcontextprotocol/sdk/types.js";
-// Tools
-import { screenshotToolName, screenshotToolDescription, ScreenshotToolSchema, runScreenshotTool } from "./tools/screenshot.js";
-import { architectToolName, architectToolDescription, ArchitectToolSchema, runArchitectTool } from "./tools/architect.js";
-import { codeReviewToolName, codeReviewToolDescription, CodeReviewToolSchema, runCodeReviewTool } from "./tools/codeReview.js";
-import { apiTestGeneratorToolName, apiTestGeneratorToolDescription, APITestGeneratorSchema, runAPITestGenerator } from "./tools/apiTestGenerator.js";
+import { createMcpServer } from "./server.js";
 // Environment
-import { HTTP_MODE_ENABLED, PORT } from "./config/config.js";
+import { BROWSER, HTTP_MODE_ENABLED, PORT, config } from "./config/config.js";
 import logger from "./utils/logger.js";
+import { closeBrowserPool, prewarmBrowserPool } from "./tools/browserPool.js";
 
 
 /*========== BRANCH MANAGER's MCP SERVER ==========*/
 
-// 1. Create an MCP server instance
-const server = new Server(
-  {
-    name: "mcp-server",
-    version: "0.0.1",
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  },
-);
-
-// 2. Define the list of tools
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  logger.info("Listing available tools");
-  return {
-    tools: [
-      {
-        name: screenshotToolName,
-        description: screenshotToolDescription,
-        inputSchema: {
-          type: "object",
-          properties: {
-            url: {
-              type: "string",
-              description: "Full URL to screenshot (e.g., https://example.com)",
-            },
-            relativePath: {
-              type: "string",
-              description: `Relative path appended to http://localhost:${PORT} (e.g., 'dashboard' becomes http://localhost:${PORT}/dashboard)`,
-            },
-            fullPathToScreenshot: {
-              type: "string",
-              description: "Path where the screenshot will be saved (e.g., /tmp/screenshot.png)",
-            },
-          },
-          required: [],
-        },
-      },
-      {
-        name: architectToolName,
-        description: architectToolDescription,
-        inputSchema: {
-          type: "object",
-          properties: {
-            task: {
-              type: "string",
-              description: "Description of the task",
-            },
-            code: {
-              type: "string",
-              description: "Concatenated code from one or more files",
-            },
-          },
-          required: ["task", "code"],
-        },
-      },
-      {
-        name: codeReviewToolName,
-        description: codeReviewToolDescription,
-        inputSchema: {
-          type: "object",
-          properties: {
-            folderPath: {
-              type: "string",
-              description:
-                "Path to the full root directory of the repository to diff against main",
-            },
-          },
-          required: ["folderPath"],
-        },
-      },
-      {
-        name: apiTestGeneratorToolName,
-        description: apiTestGeneratorToolDescription,
-        inputSchema: {
-          type: "object",
-          properties: {
-            spec: {
-              type: "string",
-              description: "API specification (Swagger/OpenAPI) or API endpoint code",
-            },
-            framework: {
-              type: "string",
-              description: "Test framework to use (jest, mocha, chai, supertest, playwright, cypress)",
-              enum: ["jest", "mocha", "chai", "supertest", "playwright", "cypress"],
-              default: "jest",
-            },
-            outputFormat: {
-              type: "string",
-              description: "Output format (javascript or typescript)",
-              enum: ["javascript", "typescript"],
-              default: "javascript",
-            },
-            testDir: {
-              type: "string",
-              description: "Directory to save the generated test files (optional)",
-            },
-            endpoints: {
-              type: "array",
-              items: {
-                type: "string"
-              },
-              description: "Specific endpoints to focus on (optional)",
-            },
-            currentFilePath: {
-              type: "string",
-              description: "Path to the currently open file for context awareness",
-            },
-            contextType: {
-              type: "string",
-              description: "What type of context to focus on (file, endpoint, folder)",
-              enum: ["file", "endpoint", "folder"],
-              default: "file"
-            },
-            projectRoot: {
-              type: "string",
-              description: "Root directory of the project for better path resolution",
-            },
-          },
-          required: ["spec"],
-        },
-      },
-    ],
-  };
-});
-
-// 3. Implement the tool call logic
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
-  switch (name) {
-    // Screenshot tool
-    case screenshotToolName: {
-      logger.highlight(`📸 Taking screenshot with args: ${JSON.stringify(args)}`);
-      const validated = ScreenshotToolSchema.parse(args);
-      const result = await runScreenshotTool(validated);
-      logger.success(`Screenshot captured successfully!`);
-      return result;
-    }
-    // Architect tool
-    case architectToolName: {
-      logger.highlight(`🏗️ Running architect tool with task: ${typeof args?.task === 'string' ? args.task.substring(0, 50) + '...' : 'No task provided'}`);
-      const validated = ArchitectToolSchema.parse(args);
-      const result = await runArchitectTool(validated);
-      logger.success(`Architect tool completed successfully!`);
-      return result;
-    }
-    // Code Review tool
-    case codeReviewToolName: {
-      logger.highlight(`🔍 Running code review for: ${args?.folderPath || 'Unknown folder'}`);
-      const validated = CodeReviewToolSchema.parse(args);
-      const result = await runCodeReviewTool(validated);
-      logger.success(`Code review completed successfully!`);
-      return result;
-    }
-    // API Test Generator tool
-    case apiTestGeneratorToolName: {
-      logger.highlight(`🧪 Generating API tests for: ${args?.spec ? 'API Spec/Code' : 'Unknown API'}`);
-      const validated = APITestGeneratorSchema.parse(args);
-      const result = await runAPITestGenerator(validated);
-      logger.success(`API test generation completed successfully!`);
-      return result;
-    }
-    default:
-      logger.error(`Unknown tool: ${name}`);
-      throw new Error(`Unknown tool: ${name}`);
-  }
-});
-
 // Get HTTP mode flag to control external web server availability
 const httpModeEnabled = HTTP_MODE_ENABLED;
 
-// 4. Start the MCP server with the appropriate transport
+// Start the MCP server with the appropriate transport
 async function main() {
   // Check if we should run in HTTP mode (requires both the flag to be enabled and the command line arg)
   const httpRequested = process.argv.includes('--http');
   const useHttp = httpModeEnabled && httpRequested;
-  const port = PORT; // Get port from config.ts
+  const port = PORT; // From config (--port, MCP_PORT or server.port)
   
   logger.rainbow(`.========== DegenDuel MCP Server Starting ============.`);
   
@@ -225,26 +48,44 @@ async function main() {
     // Only import HTTP server if we're actually using it
     const { startHttpServer } = await import('./httpServer.js');
     
-    // Start with HTTP/SSE transport
-    const transport = startHttpServer(server, port);
-    await server.connect(transport);
+    // Start with HTTP transports (each client session gets its own MCP server instance)
+    const httpServer = startHttpServer(createMcpServer, port);
+    const shutdown = async () => {
+      await httpServer.close();
+      await closeBrowserPool();
+      process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
     logger.success(`MCP Server running on HTTP at port ${port}`);
     logger.info(`Server URL: http://localhost:${port}`);
   } else {
     // If HTTP was requested but not enabled, show a message
     if (httpRequested && !httpModeEnabled) {
-      logger.warning("HTTP mode is currently disabled. In env/config.ts, set HTTP_MODE_ENABLED to true to enable it.");
+      logger.warning("HTTP mode is currently disabled. Set server.httpEnabled in the config file or MCP_HTTP_ENABLED=true to enable it.");
     }
     
     // Start with stdio transport (default for Cursor)
     const transport = new StdioServerTransport();
     const transportMode = useHttp ? "HTTP" : "stdio";
-    await server.connect(transport);
+    await createMcpServer().connect(transport);
+    // Pooled browsers would keep the process alive after the client goes away
+    const shutdown = async () => {
+      await closeBrowserPool();
+      process.exit(0);
+    };
+    process.stdin.on('end', shutdown);
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
     
     logger.success(`MCP Server running on ${transportMode} transport`);
     logger.info(`Port configured: ${port} (for screenshot tool)`);
   }
   
+  if (BROWSER.prewarm && !config.tools.disabled.includes("screenshot")) {
+    prewarmBrowserPool();
+  }
+
   // end of startup message
   logger.rainbow(`'====================================================='\n\n`);
 }
@@ -0,0 +1,57 @@
+// src/providers/anthropic.ts
+
+/**
+ * Anthropic provider (Messages API)
+ *   - System messages are passed through the top-level `system` field
+ */
+
+import Anthropic from "@anthropic-ai/sdk";
+import type { CompletionRequest, CompletionResponse, LLMProvider } from "./types.js";
+
+export interface AnthropicProviderOptions {
+  apiKey?: string;
+  baseUrl?: string;
+  maxTokens: number;
+}
+
+export function createAnthropicProvider(name: string, options: AnthropicProviderOptions): LLMProvider {
+  const client = new Anthropic({
+    apiKey: options.apiKey,
+    baseURL: options.baseUrl,
+    // Retries are handled by withRequestPolicy
+    maxRetries: 0,
+  });
+
+  return {
+    name,
+    async complete(request: CompletionRequest): Promise<CompletionResponse> {
+      const system = request.messages
+        .filter((message) => message.role === "system")
+        .map((message) => message.content)
+        .join("\n\n");
+      const messages = request.messages
+        .filter((message) => message.role !== "system")
+        .map((message) => ({ role: message.role as "user" | "assistant", content: message.content }));
+
+      const response = await client.messages.create(
+        {
+          model: request.model,
+          max_tokens: options.maxTokens,
+          system: system || undefined,
+          messages,
+          temperature: request.temperature,
+        },
+        { signal: request.signal },
+      );
+
+      const text = response.content
+        .map((block) => (block.type === "text" ? block.text : ""))
+        .join("");
+
+      return {
+        text: text || "No response from model.",
+        model: response.model,
+      };
+    },
+  };
+}
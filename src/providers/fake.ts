@@ -0,0 +1,34 @@
+// src/providers/fake.ts
+
+/**
+ * Fake provider
+ *   - Deterministic and offline: replays the configured responses in order (cycling),
+ *     or echoes the last user message when none are configured
+ */
+
+import type { CompletionRequest, CompletionResponse, LLMProvider } from "./types.js";
+
+export function createFakeProvider(name: string, responses: string[] = []): LLMProvider {
+  let calls = 0;
+
+  return {
+    name,
+    async complete(request: CompletionRequest): Promise<CompletionResponse> {
+      if (request.signal?.aborted) {
+        throw request.signal.reason ?? new Error("Request aborted");
+      }
+
+      if (responses.length > 0) {
+        const text = responses[calls % responses.length];
+        calls++;
+        return { text, model: request.model };
+      }
+
+      const lastUserMessage = [...request.messages].reverse().find((message) => message.role === "user");
+      return {
+        text: `[fake:${request.model}] ${lastUserMessage?.content ?? ""}`,
+        model: request.model,
+      };
+    },
+  };
+}
@@ -0,0 +1,63 @@
+// src/providers/index.ts
+
+/**
+ * Provider lookup
+ *   - Resolves the provider configured for each model-backed tool (ai.toolProviders)
+ *   - Provider instances are created once, wrapped in the timeout/retry policy, and reused
+ */
+
+import { config } from "../config/config.js";
+import type { ProviderConfig } from "../config/loader.js";
+import { createOpenAIProvider } from "./openai.js";
+import { createAnthropicProvider } from "./anthropic.js";
+import { createFakeProvider } from "./fake.js";
+import { withRequestPolicy } from "./policy.js";
+import type { LLMProvider } from "./types.js";
+
+export type { ChatMessage, CompletionRequest, CompletionResponse, LLMProvider } from "./types.js";
+export { ModelTimeoutError, ModelCancelledError } from "./policy.js";
+
+export type ModelTool = keyof typeof config.ai.toolProviders;
+
+// Built-in providers, overridable by entries of the same name under ai.providers
+const builtInProviders: Record<string, ProviderConfig> = {
+  openai: { type: "openai", apiKey: config.ai.openaiApiKey },
+  anthropic: { type: "anthropic", apiKey: config.ai.anthropicApiKey, maxTokens: 8192 },
+  fake: { type: "fake", responses: [] },
+};
+
+const providers = new Map<string, LLMProvider>();
+
+function createProvider(name: string, providerConfig: ProviderConfig): LLMProvider {
+  switch (providerConfig.type) {
+    case "openai":
+    case "openai-compatible":
+      return createOpenAIProvider(name, providerConfig);
+    case "anthropic":
+      return createAnthropicProvider(name, providerConfig);
+    case "fake":
+      return createFakeProvider(name, providerConfig.responses);
+  }
+}
+
+// Get (or create) a provider by its configured name
+export function getProvider(name: string): LLMProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    const providerConfig = config.ai.providers[name] ?? builtInProviders[name];
+    if (!providerConfig) {
+      throw new Error(`Unknown LLM provider: ${name}`);
+    }
+    provider = withRequestPolicy(createProvider(name, providerConfig), config.ai.retry);
+    providers.set(name, provider);
+  }
+  return provider;
+}
+
+// Get the provider and model configured for a tool
+export function getProviderForTool(tool: ModelTool): { provider: LLMProvider; model: string } {
+  return {
+    provider: getProvider(config.ai.toolProviders[tool]),
+    model: config.ai.models[tool],
+  };
+}
@@ -0,0 +1,43 @@
+// src/providers/openai.ts
+
+/**
+ * OpenAI provider
+ *   - Also used for OpenAI-compatible servers (Ollama, llama.cpp, vLLM) through `baseUrl`
+ */
+
+import OpenAI from "openai";
+import type { CompletionRequest, CompletionResponse, LLMProvider } from "./types.js";
+
+export interface OpenAIProviderOptions {
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+export function createOpenAIProvider(name: string, options: OpenAIProviderOptions): LLMProvider {
+  const client = new OpenAI({
+    // Local servers usually ignore the key, but the client refuses to start without one
+    apiKey: options.apiKey ?? (options.baseUrl ? "not-needed" : undefined),
+    baseURL: options.baseUrl,
+    // Retries are handled by withRequestPolicy
+    maxRetries: 0,
+  });
+
+  return {
+    name,
+    async complete(request: CompletionRequest): Promise<CompletionResponse> {
+      const response = await client.chat.completions.create(
+        {
+          model: request.model,
+          messages: request.messages,
+          temperature: request.temperature,
+        },
+        { signal: request.signal },
+      );
+
+      return {
+        text: response.choices?.[0]?.message?.content ?? "No response from model.",
+        model: response.model,
+      };
+    },
+  };
+}
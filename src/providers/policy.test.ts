@@ -0,0 +1,108 @@
+// src/providers/policy.test.ts
+
+import assert from "node:assert/strict";
+import { before, describe, it, mock } from "node:test";
+import logger from "../utils/logger.js";
+import { ModelCancelledError, ModelTimeoutError, withRequestPolicy, type RetryPolicy } from "./policy.js";
+import type { CompletionRequest, CompletionResponse, LLMProvider } from "./types.js";
+
+const POLICY: RetryPolicy = { maxAttempts: 3, initialDelayMs: 1, maxDelayMs: 5 };
+const REQUEST: CompletionRequest = { model: "test-model", messages: [{ role: "user", content: "hi" }] };
+
+// An SDK-style error carrying an HTTP status
+const httpError = (status: number) => Object.assign(new Error(`HTTP ${status}`), { status });
+
+// A provider that runs `attempt` for each call and counts the calls
+function countingProvider(attempt: (call: number, request: CompletionRequest) => Promise<CompletionResponse>) {
+  const provider = {
+    name: "counting",
+    calls: 0,
+    complete(request: CompletionRequest) {
+      provider.calls++;
+      return attempt(provider.calls, request);
+    },
+  };
+  return provider;
+}
+
+// Does not answer within the test; rejects with the signal's reason once the request is aborted. The timer keeps the
+// process alive, as a pending HTTP request would (AbortSignal.timeout does not)
+const hang = (request: CompletionRequest) =>
+  new Promise<CompletionResponse>((_, reject) => {
+    const timer = setTimeout(() => reject(new Error("not aborted")), 5_000);
+    request.signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(request.signal?.reason);
+    }, { once: true });
+  });
+
+describe("withRequestPolicy", () => {
+  // Retry warnings written to stdout mid-run can corrupt the test runner's own messages
+  before(() => {
+    mock.method(logger, "warning", () => undefined);
+  });
+
+  it("retries retryable errors until a call succeeds", async () => {
+    const provider = countingProvider(async (call, request) => {
+      if (call === 1) throw httpError(503);
+      if (call === 2) throw Object.assign(new Error("socket hang up"), { code: "ECONNRESET" });
+      return { text: "ok", model: request.model };
+    });
+    const response = await withRequestPolicy(provider, POLICY).complete(REQUEST);
+    assert.deepEqual(response, { text: "ok", model: "test-model" });
+    assert.equal(provider.calls, 3);
+  });
+
+  it("gives up after maxAttempts with the last error", async () => {
+    const provider = countingProvider(async () => {
+      throw httpError(429);
+    });
+    await assert.rejects(withRequestPolicy(provider, POLICY).complete(REQUEST), /HTTP 429/);
+    assert.equal(provider.calls, 3);
+  });
+
+  it("does not retry client errors", async () => {
+    for (const status of [400, 401, 404]) {
+      const provider = countingProvider(async () => {
+        throw httpError(status);
+      });
+      await assert.rejects(withRequestPolicy(provider, POLICY).complete(REQUEST), new RegExp(`HTTP ${status}`));
+      assert.equal(provider.calls, 1);
+    }
+  });
+
+  it("fails with ModelTimeoutError when the deadline passes", async () => {
+    const provider = countingProvider(async (_, request) => hang(request));
+    await assert.rejects(withRequestPolicy(provider, POLICY).complete({ ...REQUEST, timeoutMs: 20 }), (error: unknown) => {
+      assert.ok(error instanceof ModelTimeoutError);
+      assert.equal(error.timeoutMs, 20);
+      return true;
+    });
+    assert.equal(provider.calls, 1);
+  });
+
+  it("fails with ModelCancelledError when the caller aborts, also during a backoff", async () => {
+    const hanging = countingProvider(async (_, request) => hang(request));
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 10);
+    await assert.rejects(
+      withRequestPolicy(hanging, POLICY).complete({ ...REQUEST, signal: controller.signal, timeoutMs: 10_000 }),
+      ModelCancelledError,
+    );
+
+    const failing = countingProvider(async () => {
+      throw httpError(503);
+    });
+    const backoff = new AbortController();
+    const call = withRequestPolicy(failing, { ...POLICY, initialDelayMs: 10_000, maxDelayMs: 10_000 })
+      .complete({ ...REQUEST, signal: backoff.signal });
+    setTimeout(() => backoff.abort(), 10);
+    await assert.rejects(call, ModelCancelledError);
+    assert.equal(failing.calls, 1);
+
+    // An already aborted signal never reaches the provider
+    const never = countingProvider(async (_, request) => ({ text: "", model: request.model }));
+    await assert.rejects(withRequestPolicy(never, POLICY).complete({ ...REQUEST, signal: AbortSignal.abort() }), ModelCancelledError);
+    assert.equal(never.calls, 0);
+  });
+});
@@ -0,0 +1,123 @@
+// src/providers/policy.ts
+
+/**
+ * Request policy for model calls
+ *   - One deadline (request.timeoutMs) covering every attempt
+ *   - Exponential backoff with jitter for retryable errors (429, 408, 5xx, connection failures)
+ *   - The caller's abort signal (MCP request cancellation) stops both the call and any pending backoff
+ */
+
+import logger from "../utils/logger.js";
+import type { CompletionRequest, CompletionResponse, LLMProvider } from "./types.js";
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+}
+
+// Thrown when the whole call (including retries) exceeds its timeout
+export class ModelTimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`Model call timed out after ${timeoutMs}ms`);
+    this.name = "ModelTimeoutError";
+  }
+}
+
+// Thrown when the caller cancels the request
+export class ModelCancelledError extends Error {
+  constructor() {
+    super("Model call was cancelled");
+    this.name = "ModelCancelledError";
+  }
+}
+
+// A field of a thrown value, when it is an object that has it
+function field(error: unknown, name: string): unknown {
+  return typeof error === "object" && error !== null && name in error ? (error as Record<string, unknown>)[name] : undefined;
+}
+
+// HTTP status and headers as exposed by both the OpenAI and Anthropic SDK errors
+function errorStatus(error: unknown): number | undefined {
+  const status = field(error, "status");
+  return typeof status === "number" ? status : undefined;
+}
+
+export function isRetryableError(error: unknown): boolean {
+  const status = errorStatus(error);
+  if (status !== undefined) {
+    return status === 408 || status === 429 || status >= 500;
+  }
+  // APIConnectionError / APIConnectionTimeoutError in both SDKs, or raw socket errors
+  const name = field(error, "name");
+  const code = field(error, "code");
+  return (typeof name === "string" && name.includes("Connection"))
+    || (typeof code === "string" && ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EAI_AGAIN"].includes(code));
+}
+
+// Honor a Retry-After header (seconds) when the provider sends one; the SDKs expose a Headers object or a plain record
+function retryAfterMs(error: unknown): number | undefined {
+  const headers = field(error, "headers");
+  const get = field(headers, "get");
+  const value: unknown = typeof get === "function" ? get.call(headers, "retry-after") : field(headers, "retry-after");
+  const seconds = Number(value);
+  return value && Number.isFinite(seconds) ? seconds * 1000 : undefined;
+}
+
+function backoffDelay(policy: RetryPolicy, attempt: number, error: unknown): number {
+  const exponential = policy.initialDelayMs * 2 ** (attempt - 1);
+  const jittered = exponential / 2 + Math.random() * (exponential / 2);
+  return Math.min(retryAfterMs(error) ?? jittered, policy.maxDelayMs);
+}
+
+// Resolve after `ms`, or reject as soon as `signal` aborts
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Wrap a provider so every completion follows the timeout, retry and cancellation policy
+export function withRequestPolicy(provider: LLMProvider, policy: RetryPolicy): LLMProvider {
+  return {
+    name: provider.name,
+    async complete(request: CompletionRequest): Promise<CompletionResponse> {
+      const { signal: callerSignal, timeoutMs, ...rest } = request;
+      const timeoutSignal = timeoutMs ? AbortSignal.timeout(timeoutMs) : undefined;
+      const signal = AbortSignal.any([callerSignal, timeoutSignal].filter((s): s is AbortSignal => Boolean(s)));
+
+      // Map an abort to the reason the caller cares about
+      const abortError = () =>
+        timeoutMs && timeoutSignal?.aborted && !callerSignal?.aborted
+          ? new ModelTimeoutError(timeoutMs)
+          : new ModelCancelledError();
+
+      for (let attempt = 1; ; attempt++) {
+        if (signal.aborted) throw abortError();
+        try {
+          return await provider.complete({ ...rest, signal });
+        } catch (error) {
+          if (signal.aborted) throw abortError();
+          if (attempt >= policy.maxAttempts || !isRetryableError(error)) throw error;
+
+          const delay = backoffDelay(policy, attempt, error);
+          logger.warning(`${provider.name} call failed (attempt ${attempt}/${policy.maxAttempts}, status ${errorStatus(error) ?? "n/a"}), retrying in ${Math.round(delay)}ms: ${error instanceof Error ? error.message : String(error)}`);
+          try {
+            await sleep(delay, signal);
+          } catch {
+            throw abortError();
+          }
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,31 @@
+// src/providers/types.ts
+
+/**
+ * LLM provider abstraction shared by every model-backed tool
+ */
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface CompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  // Aborts the call (MCP request cancellation)
+  signal?: AbortSignal;
+  // Deadline in milliseconds for the whole call, including retries
+  timeoutMs?: number;
+}
+
+export interface CompletionResponse {
+  text: string;
+  model: string;
+}
+
+export interface LLMProvider {
+  // Provider name from configuration (e.g. "openai", "ollama"), used in logs
+  readonly name: string;
+  complete(request: CompletionRequest): Promise<CompletionResponse>;
+}
@@ -0,0 +1,114 @@
+// src/server.test.ts
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+const GENERATED_SUITE = [
+  "Here is the suite:",
+  "```typescript",
+  'import request from "supertest";',
+  'import { app } from "../src/app";',
+  "",
+  'describe("GET /users", () => {',
+  '  it("lists users", async () => {',
+  '    await request(app).get("/users").expect(200);',
+  "  });",
+  "});",
+  "```",
+].join("\n");
+
+const SPEC = JSON.stringify({
+  openapi: "3.0.3",
+  info: { title: "Users", version: "1.0.0" },
+  paths: { "/users": { get: { operationId: "listUsers", responses: { 200: { description: "Users" } } } } },
+});
+
+// The tools called through an MCP client, as a connected client would; the model is the offline fake provider
+describe("model-backed tools end to end", () => {
+  let dir: string;
+  let client: Client;
+  const text = (result: CallToolResult) => result.content.map((part) => (part.type === "text" ? part.text : "")).join("");
+
+  before(async () => {
+    dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "mcp-server-test-")));
+    const configFile = path.join(dir, "mcp-server.config.json");
+    fs.writeFileSync(configFile, JSON.stringify({
+      workspace: { roots: [dir] },
+      database: { url: "" },
+      tools: { apitests: { allowVerify: false } },
+      ai: {
+        providers: { scripted: { type: "fake", responses: [GENERATED_SUITE] } },
+        toolProviders: { architect: "fake", apiTestGenerator: "scripted" },
+        models: { architect: "fake-architect", apiTestGenerator: "fake-tests" },
+      },
+    }));
+    // The configuration is read when config.ts is first imported
+    process.env.MCP_CONFIG = configFile;
+    const { createMcpServer } = await import("./server.js");
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createMcpServer().connect(serverTransport);
+    client = new Client({ name: "server-test", version: "1.0.0" });
+    await client.connect(clientTransport);
+  });
+  after(async () => {
+    await client?.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("architect sends the task and code to the configured model", async () => {
+    const result = (await client.callTool({
+      name: "architect",
+      arguments: { task: "Add pagination", code: "export const list = () => users;" },
+    })) as CallToolResult;
+    assert.equal(result.isError, undefined);
+    assert.match(text(result), /^\[fake:fake-architect\] Task: Add pagination/);
+    assert.match(text(result), /export const list = \(\) => users;/);
+  });
+
+  it("apitests writes the suite the model returns into testDir", async () => {
+    const testDir = path.join(dir, "tests");
+    const result = (await client.callTool({
+      name: "apitests",
+      arguments: { spec: SPEC, framework: "jest", outputFormat: "typescript", testDir },
+    })) as CallToolResult;
+    assert.equal(result.isError, undefined, text(result));
+
+    const files = (result.structuredContent as { files: { path: string; savedTo: string; action: string }[] }).files;
+    assert.equal(files.length, 1);
+    assert.equal(files[0].action, "create");
+    assert.equal(path.dirname(files[0].savedTo), testDir);
+    const saved = fs.readFileSync(files[0].savedTo, "utf-8");
+    assert.match(saved, /describe\("GET \/users"/);
+    assert.doesNotMatch(saved, /```|Here is the suite/);
+    assert.match(text(result), /Operations covered \(1\): GET \/users/);
+  });
+
+  it("apitests refuses verify when the operator has not allowed it", async () => {
+    const testDir = path.join(dir, "verified");
+    const result = (await client.callTool({
+      name: "apitests",
+      arguments: { spec: SPEC, testDir, verify: true },
+    })) as CallToolResult;
+    assert.equal(result.isError, true);
+    assert.match(text(result), /verify is disabled on this server/);
+    assert.equal(fs.existsSync(testDir), false);
+  });
+
+  it("apitests refuses a testDir outside the workspace roots", async () => {
+    const outside = `${dir}-outside`;
+    const result = (await client.callTool({
+      name: "apitests",
+      arguments: { spec: SPEC, testDir: outside },
+    })) as CallToolResult;
+    assert.equal(result.isError, true);
+    assert.match(text(result), /testDir must be inside the workspace/);
+    assert.equal(fs.existsSync(outside), false);
+  });
+});
@@ -0,0 +1,94 @@
+// src/server.ts
+
+/**
+ * MCP server factory
+ *   - Builds a fully wired MCP Server (tools + resources)
+ *   - stdio mode creates one; HTTP mode creates one per client session
+ */
+
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { CallToolRequestSchema, ListToolsRequestSchema, ListResourcesRequestSchema, ReadResourceRequestSchema,
+  McpError, ErrorCode,
+} from "@modelcontextprotocol/sdk/types.js";
+// Tools
+import { tools } from "./tools/index.js";
+import { createToolRegistry, createToolContext } from "./tools/registry.js";
+import { ToolError, toToolError, toolErrorResult, formatZodError } from "./tools/errors.js";
+import { postgresqlEnabled, postgresqlToolName, listPostgreSQLResources, readPostgreSQLResource } from "./tools/postgresql.js";
+import logger from "./utils/logger.js";
+
+// Build the tool registry once (listing and dispatch both derive from the tool definitions)
+const registry = createToolRegistry(tools);
+
+export interface McpServerOptions {
+  // Restricts which tools this server instance lists and calls (HTTP mode scopes each session to its API key)
+  canUseTool?: (toolName: string) => boolean;
+}
+
+export function createMcpServer(options: McpServerOptions = {}): Server {
+  const { canUseTool = () => true } = options;
+  // The schema resources describe what `query` can read, so they share its scope
+  const resourcesEnabled = postgresqlEnabled && canUseTool(postgresqlToolName);
+
+  // 1. Create an MCP server instance
+  const server = new Server(
+    {
+      name: "mcp-server",
+      version: "0.0.1",
+    },
+    {
+      capabilities: {
+        tools: {},
+        ...(resourcesEnabled ? { resources: {} } : {}),
+      },
+    },
+  );
+
+  // 2. Define the list of tools
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    logger.info("Listing available tools");
+    return {
+      tools: registry.list().filter((tool) => canUseTool(tool.name)),
+    };
+  });
+
+  // 3. Implement the tool call logic
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+
+    const tool = registry.get(name);
+    if (!tool || !canUseTool(name)) {
+      // Unknown tools are a protocol error; everything below comes back as an isError result
+      logger.error(`Unknown tool: ${name}`);
+      throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
+    }
+
+    const validated = tool.schema.safeParse(args ?? {});
+    if (!validated.success) {
+      logger.error(`Invalid arguments for ${name}: ${formatZodError(validated.error)}`);
+      return toolErrorResult(new ToolError("INVALID_ARGUMENTS", formatZodError(validated.error), validated.error.issues));
+    }
+
+    try {
+      return await tool.handler(validated.data, createToolContext(extra));
+    } catch (error) {
+      const toolError = toToolError(error);
+      logger.error(`${name} failed [${toolError.code}]: ${toolError.message}`);
+      return toolErrorResult(toolError);
+    }
+  });
+
+  // 4. Expose database table schemas as resources (only when a database is configured and `query` is allowed)
+  if (resourcesEnabled) {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      logger.info("Listing database schema resources");
+      return listPostgreSQLResources();
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      return readPostgreSQLResource(request.params.uri);
+    });
+  }
+
+  return server;
+}
@@ -0,0 +1,104 @@
+// src/tools/apiTestFrameworks.ts
+
+/**
+ * Test frameworks supported by the apitests tool
+ *   - One profile per framework: the runners that can execute its suites, how its files are named,
+ *     and what the model is told about imports and APIs
+ *   - Pact consumer tests run under whichever of Vitest, Jest or Mocha the project has
+ */
+
+export const TEST_FRAMEWORKS = [
+  "jest",
+  "mocha",
+  "chai",
+  "supertest",
+  "playwright",
+  "cypress",
+  "vitest",
+  "node:test",
+  "pact",
+] as const;
+export type TestFramework = (typeof TEST_FRAMEWORKS)[number];
+
+// Programs that execute suites; "node" is the built-in `node --test` runner
+export const TEST_RUNNERS = ["jest", "mocha", "playwright", "cypress", "vitest", "node"] as const;
+export type TestRunner = (typeof TEST_RUNNERS)[number];
+
+export interface FrameworkProfile {
+  // Runners that can execute the suites, in order of preference (the first one installed is used)
+  runners: TestRunner[];
+  // Inserted before the extension: "users" + ".pact.test" + ".ts"
+  fileSuffix: string;
+  // Extension for JavaScript output (node:test suites are ES modules)
+  jsExtension: "js" | "mjs";
+  // Prompt lines on imports and the APIs to use
+  guidance: string;
+}
+
+export const FRAMEWORK_PROFILES: Record<TestFramework, FrameworkProfile> = {
+  jest: {
+    runners: ["jest"],
+    fileSuffix: ".test",
+    jsExtension: "js",
+    guidance: "Use Jest's global describe/it/expect and jest.mock() for module mocks.",
+  },
+  mocha: {
+    runners: ["mocha"],
+    fileSuffix: ".test",
+    jsExtension: "js",
+    guidance: "Use Mocha's global describe/it with before/after hooks, and chai's expect for assertions.",
+  },
+  chai: {
+    runners: ["mocha", "jest"],
+    fileSuffix: ".test",
+    jsExtension: "js",
+    guidance: "Import expect from \"chai\" for every assertion; the suites run under Mocha.",
+  },
+  supertest: {
+    runners: ["jest", "mocha"],
+    fileSuffix: ".test",
+    jsExtension: "js",
+    guidance: "Import request from \"supertest\" and call the app in-process (request(app).get(...)), without starting a server.",
+  },
+  playwright: {
+    runners: ["playwright"],
+    fileSuffix: ".test",
+    jsExtension: "js",
+    guidance: "Import { test, expect } from \"@playwright/test\" and use the `request` fixture (APIRequestContext) for HTTP calls.",
+  },
+  cypress: {
+    runners: ["cypress"],
+    fileSuffix: ".test",
+    jsExtension: "js",
+    guidance: "Use cy.request() for HTTP calls, with describe/it and chai-style expect on the response.",
+  },
+  vitest: {
+    runners: ["vitest"],
+    fileSuffix: ".test",
+    jsExtension: "js",
+    guidance: "Import { describe, it, expect, vi, beforeEach, afterEach } from \"vitest\" (no globals) and use vi.mock()/vi.fn() for mocks.",
+  },
+  "node:test": {
+    runners: ["node"],
+    fileSuffix: ".test",
+    jsExtension: "mjs",
+    guidance: "Use the built-in runner: import { describe, it, before, after, mock } from \"node:test\" and assert from \"node:assert/strict\". "
+      + "Write ES modules, use the global fetch for HTTP calls, and add no third-party test dependencies.",
+  },
+  pact: {
+    runners: ["vitest", "jest", "mocha"],
+    fileSuffix: ".pact.test",
+    jsExtension: "js",
+    guidance: "Write consumer-driven contract tests with PactV3 and MatchersV3 from \"@pact-foundation/pact\". "
+      + "For each interaction: given(<provider state>), uponReceiving(<description>), withRequest({ method, path, query, headers, body }), "
+      + "willRespondWith({ status, headers, body }) using matchers (like, eachLike, regex, integer, datetime) rather than literal values, "
+      + "then executeTest() calls the consumer's API client against mockServer.url and asserts on what the client returns. "
+      + "Use describe/it from the test runner; the pact file is written to ./pacts when the tests pass.",
+  },
+};
+
+// "users" -> "users.test.ts", "users.pact.test.ts", "users.test.mjs", ...
+export function testFileName(baseName: string, framework: TestFramework, outputFormat: "javascript" | "typescript"): string {
+  const profile = FRAMEWORK_PROFILES[framework];
+  return `${baseName}${profile.fileSuffix}.${outputFormat === "typescript" ? "ts" : profile.jsExtension}`;
+}
@@ -4,30 +4,49 @@
  * APITestGenerator tool
  *   - Analyzes API specifications or endpoint code and generates comprehensive test suites
  *   - Input: 'spec' (OpenAPI/Swagger spec or API code), 'framework' (test framework), 'outputFormat' (file format)
+ *   - OpenAPI 3.x / Swagger 2.0 specs (inline or a file path) are parsed into operations, which 'endpoints'
+ *     filters and the prompt lists one by one
+ *   - With contextType "endpoint", routes in 'currentFilePath' are found by parsing it (see utils/routes.ts)
+ *   - Related files come from the import graph of 'currentFilePath' (tsconfig paths aware), within a token budget
+ *   - 'verify' type-checks and runs the saved suite, feeding failures back to the model for a few repair rounds
+ *   - Existing test files are only replaced as 'onConflict' allows; 'dryRun' returns the diff instead of writing
+ *   - 'multiFile' returns several files (suites per resource, fixtures, helpers, mocks) as a manifest
  */
 
 import { z } from "zod";
-import OpenAI from "openai";
-import { OPENAI_API_KEY } from "../env/keys.js";
-import { MODEL_FOR_TOOL_API_TEST_GENERATOR } from "../config/ai.js";
+import { config, TIMEOUTS } from "../config/config.js";
+import { getProviderForTool, type ChatMessage } from "../providers/index.js";
 import fs from "fs";
 import path from "path";
 import logger from "../utils/logger.js";
+import { isInsideWorkspace, resolveWorkspacePath } from "../utils/workspace.js";
+import { parseOpenApiText, matchesEndpoint, describeOperation, type ApiSpec, type ApiOperation } from "../utils/openapi.js";
+import { extractRoutes, describeRoute, type Route } from "../utils/routes.js";
+import { SOURCE_EXTENSIONS, walkImportGraph } from "../utils/moduleResolution.js";
+import { FRAMEWORK_PROFILES, TEST_FRAMEWORKS, testFileName, type TestFramework } from "./apiTestFrameworks.js";
+import { describeVerification, findProjectRoot, verifyTestFiles, type VerificationResult } from "./apiTestVerifier.js";
+import {
+  CONFLICT_MODES,
+  describeWritePlan,
+  diffPlannedFile,
+  planTestFileWrite,
+  withCode,
+  writePlannedFile,
+  parseFileManifest,
+  type GeneratedFile,
+  type WritePlan,
+} from "./testFileWriter.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { defineTool, type ToolContext } from "./registry.js";
+import { ToolError } from "./errors.js";
 
 // Define the tool name, description, and schema
 export const apiTestGeneratorToolName = "apitests";
 export const apiTestGeneratorToolDescription =
   "Analyzes API specifications or endpoint code and generates comprehensive test suites with edge cases, validations, and mocked dependencies.";
 
-// Define a schema for supported test frameworks
-const TestFrameworkEnum = z.enum([
-  "jest",
-  "mocha",
-  "chai",
-  "supertest",
-  "playwright",
-  "cypress",
-]);
+// Define a schema for supported test frameworks (profiles in apiTestFrameworks.ts)
+const TestFrameworkEnum = z.enum(TEST_FRAMEWORKS);
 
 // Define a schema for supported output formats
 const OutputFormatEnum = z.enum([
@@ -37,121 +56,267 @@ const OutputFormatEnum = z.enum([
 
 // Input schema
 export const APITestGeneratorSchema = z.object({
-  spec: z.string().min(1, "API specification or code is required."),
-  framework: TestFrameworkEnum.default("jest"),
-  outputFormat: OutputFormatEnum.default("javascript"),
-  testDir: z.string().optional(),
-  endpoints: z.array(z.string()).optional(),
+  spec: z.string().min(1, "API specification or code is required.").describe("OpenAPI 3.x / Swagger 2.0 document (JSON or YAML, inline or a path to a .json/.yaml/.yml file) or API endpoint code"),
+  framework: TestFrameworkEnum.default("jest").describe("Test framework to use; 'pact' generates consumer contract tests"),
+  outputFormat: OutputFormatEnum.default("javascript").describe("Output format (javascript or typescript)"),
+  testDir: z.string().optional().describe("Directory to save the generated test files"),
+  endpoints: z.array(z.string()).optional().describe("Specific endpoints to focus on: paths ('/users/{id}'), 'METHOD /path' or OpenAPI operationIds"),
   currentFilePath: z.string().optional().describe("Path to the currently open file for context"),
   contextType: z.enum(["file", "endpoint", "folder"]).optional().default("file").describe("What type of context to focus on"),
-  projectRoot: z.string().optional().describe("Root directory of the project"),
+  projectRoot: z.string().optional().describe("Root directory of the project; related files outside it are not used"),
+  importDepth: z.number().int().min(0).max(10).default(2).describe("How many import hops from currentFilePath to follow for context"),
+  contextTokenBudget: z.number().int().positive().default(20000).describe("Approximate token budget for related-file context (nearest files first)"),
+  verify: z.boolean().default(false).describe("Type-check and run the saved suite in the project, sending failures back to the model for repair (requires testDir; executes the generated code)"),
+  maxRepairRounds: z.number().int().min(0).max(5).default(2).describe("With verify, how many times the model may repair a failing suite"),
+  onConflict: z.enum(CONFLICT_MODES).default("fail").describe("When the test file already exists: fail, suffix (write api.2.test.ts), overwrite, or merge (append new describe blocks)"),
+  dryRun: z.boolean().default(false).describe("Do not write anything; return the unified diff of what would be written to testDir"),
+  multiFile: z.boolean().default(false).describe("Split the output into one suite per resource/router plus shared fixtures, helpers and mock setup, returned as a manifest"),
+  pactConsumer: z.string().optional().describe("With framework 'pact': consumer name in the contract (default: 'api-consumer')"),
+  pactProvider: z.string().optional().describe("With framework 'pact': provider name in the contract (default: the spec title)"),
 });
 
-// Run the APITestGenerator tool
-// Helper function to determine related files
+// Spec files are recognised by extension when `spec` is a single line
+const SPEC_FILE_PATTERN = /^[^\n]+\.(?:json|ya?ml)$/i;
+
+// Read `spec` from disk when it is a path to a spec file, otherwise use it as given
+async function readSpecInput(spec: string): Promise<{ text: string; sourceFile?: string }> {
+  if (!SPEC_FILE_PATTERN.test(spec.trim())) {
+    return { text: spec };
+  }
+  const sourceFile = resolveWorkspacePath(spec.trim(), "spec");
+  try {
+    return { text: await fs.promises.readFile(sourceFile, 'utf8'), sourceFile };
+  } catch {
+    throw new ToolError("NOT_FOUND", `Spec file not found: ${spec.trim()}`);
+  }
+}
+
+// Keep the operations selected by `endpoints` (all of them when none are given)
+function selectOperations(apiSpec: ApiSpec, endpoints?: string[]): { operations: ApiOperation[]; unmatched: string[] } {
+  if (!endpoints || endpoints.length === 0) {
+    return { operations: apiSpec.operations, unmatched: [] };
+  }
+  const unmatched = endpoints.filter((endpoint) => !apiSpec.operations.some((operation) => matchesEndpoint(operation, endpoint)));
+  const operations = apiSpec.operations.filter((operation) => endpoints.some((endpoint) => matchesEndpoint(operation, endpoint)));
+  if (operations.length === 0) {
+    throw new ToolError(
+      "INVALID_ARGUMENTS",
+      `None of the requested endpoints are in the spec: ${endpoints.join(", ")}. Available: ${apiSpec.operations.map(describeOperation).join(", ")}`,
+    );
+  }
+  return { operations, unmatched };
+}
+
+// Describe one operation for the prompt (schemas are compact JSON with $refs resolved)
+function formatOperation(operation: ApiOperation, index: number): string {
+  const lines = [`### ${index + 1}. ${describeOperation(operation)}`];
+  if (operation.summary) lines.push(`Summary: ${operation.summary}`);
+  if (operation.secured) lines.push(`Authentication: required`);
+  if (operation.parameters.length > 0) {
+    lines.push(`Parameters:`);
+    for (const parameter of operation.parameters) {
+      lines.push(`- ${parameter.name} (${parameter.in}${parameter.required ? ", required" : ""})${parameter.schema ? `: ${JSON.stringify(parameter.schema)}` : ""}`);
+    }
+  }
+  if (operation.requestBody) {
+    const { contentType, required, schema } = operation.requestBody;
+    lines.push(`Request body (${contentType}${required ? ", required" : ""})${schema ? `: ${JSON.stringify(schema)}` : ""}`);
+  }
+  lines.push(`Responses:`);
+  for (const response of operation.responses) {
+    const body = response.schema ? ` ${response.contentType}: ${JSON.stringify(response.schema)}` : "";
+    lines.push(`- ${response.status}${response.description ? ` ${response.description}` : ""}${body}`);
+  }
+  return lines.join("\n");
+}
+
+// Keep the routes selected by `endpoints`; code is not a contract, so no match keeps every route
+function selectRoutes(routes: Route[], endpoints?: string[]): Route[] {
+  if (!endpoints || endpoints.length === 0) return routes;
+  const selected = routes.filter((route) => endpoints.some((endpoint) => matchesEndpoint(route, endpoint)));
+  if (selected.length === 0) {
+    logger.warning(`None of the requested endpoints were found in the routes: ${endpoints.join(", ")}`);
+    return routes;
+  }
+  return selected;
+}
+
+// Rough token estimate for budgeting prompt context (about 4 characters per token for code)
+const CHARS_PER_TOKEN = 4;
+
+interface ContextFile {
+  path: string;
+  content: string;
+}
+
+// Imports, mounts and handlers may point outside the workspace or the project; those files are never read
+function sandboxFilter(projectRoot?: string): (file: string) => boolean {
+  return (file) => isInsideWorkspace(file) && (!projectRoot || isInsideWorkspace(file, [projectRoot]));
+}
+
+// Collect context for the prompt: the current file, then the files it imports (nearest first, up to
+// `importDepth` hops) and, for contextType "folder", its siblings, for as long as they fit `tokenBudget`
 async function getRelatedFiles(
   currentFilePath: string,
   contextType: string,
-  projectRoot?: string
-): Promise<string[]> {
-  const relatedFiles: string[] = [];
-  
-  try {
-    // If we have a current file, always include it
-    if (currentFilePath && fs.existsSync(currentFilePath)) {
-      relatedFiles.push(currentFilePath);
-      
-      // Read the current file to understand its structure
-      const fileContent = await fs.promises.readFile(currentFilePath, 'utf8');
-      
-      if (contextType === 'endpoint') {
-        // Try to extract the endpoint from the file (basic heuristic)
-        const endpointMatches = fileContent.match(/router\.(get|post|put|delete|patch)\(['"]([^'"]+)['"]/g);
-        if (endpointMatches && endpointMatches.length > 0) {
-          logger.info(`Found endpoints in file: ${endpointMatches.join(', ')}`);
-        }
-      }
-      
-      // Extract import/require statements to find related files
-      const importMatches = fileContent.match(/(?:import|require).*?(?:from\s+['"](.+?)['"]|(['"])(.+?)\2)/g);
-      if (importMatches) {
-        for (const importMatch of importMatches) {
-          const pathMatch = importMatch.match(/(?:from\s+['"](.+?)['"]|(['"])(.+?)\2)/);
-          if (pathMatch) {
-            const importPath = pathMatch[1] || pathMatch[3];
-            if (!importPath.startsWith('.')) continue; // Skip non-relative imports
-            
-            // Resolve relative path
-            const basedir = path.dirname(currentFilePath);
-            let resolvedPath = path.resolve(basedir, importPath);
-            
-            // Handle directory imports or extension-less imports
-            if (!path.extname(resolvedPath)) {
-              // Try .js first, then .ts
-              if (fs.existsSync(`${resolvedPath}.js`)) {
-                resolvedPath += '.js';
-              } else if (fs.existsSync(`${resolvedPath}.ts`)) {
-                resolvedPath += '.ts';
-              } else if (fs.existsSync(resolvedPath) && fs.statSync(resolvedPath).isDirectory()) {
-                if (fs.existsSync(`${resolvedPath}/index.js`)) {
-                  resolvedPath = `${resolvedPath}/index.js`;
-                } else if (fs.existsSync(`${resolvedPath}/index.ts`)) {
-                  resolvedPath = `${resolvedPath}/index.ts`;
-                }
-              }
-            }
-            
-            if (fs.existsSync(resolvedPath)) {
-              relatedFiles.push(resolvedPath);
-            }
-          }
-        }
+  options: { projectRoot?: string; importDepth: number; tokenBudget: number },
+): Promise<{ files: ContextFile[]; omitted: string[] }> {
+  const { projectRoot, importDepth, tokenBudget } = options;
+  const files: ContextFile[] = [];
+  const omitted: string[] = [];
+
+  const include = sandboxFilter(projectRoot);
+  const candidates = walkImportGraph(currentFilePath, importDepth, include).map((node) => node.file);
+  if (contextType === 'folder') {
+    const folderPath = path.dirname(currentFilePath);
+    const siblings = await fs.promises.readdir(folderPath, { withFileTypes: true }).catch(() => []);
+    for (const entry of siblings) {
+      const filePath = path.join(folderPath, entry.name);
+      if (entry.isFile() && SOURCE_EXTENSIONS.includes(path.extname(entry.name)) && !candidates.includes(filePath)) {
+        candidates.push(filePath);
       }
     }
-    
-    // If contextType is folder and we have project root, add relevant sibling files
-    if (contextType === 'folder' && currentFilePath) {
-      const folderPath = path.dirname(currentFilePath);
-      const files = await fs.promises.readdir(folderPath);
-      
-      for (const file of files) {
-        const filePath = path.join(folderPath, file);
-        if (fs.statSync(filePath).isFile() && 
-            (file.endsWith('.js') || file.endsWith('.ts')) &&
-            !relatedFiles.includes(filePath)) {
-          relatedFiles.push(filePath);
-        }
-      }
+  }
+
+  let remaining = tokenBudget;
+  for (const [index, filePath] of candidates.entries()) {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(filePath, 'utf8');
+    } catch (error) {
+      logger.warning(`Could not read file ${filePath}: ${error}`);
+      continue;
     }
-    
-    // Limit to a reasonable number
-    return relatedFiles.slice(0, 5);
-  } catch (error) {
-    logger.warning(`Failed to collect related files: ${error}`);
-    return relatedFiles;
+    const tokens = Math.ceil(content.length / CHARS_PER_TOKEN);
+    // The current file is always included; the others are skipped when they do not fit, so smaller ones still can
+    if (index > 0 && tokens > remaining) {
+      omitted.push(filePath);
+      continue;
+    }
+    files.push({ path: filePath, content });
+    remaining -= tokens;
+  }
+  return { files, omitted };
+}
+
+// Call the configured model for a test suite
+async function completeTestSuite(
+  messages: ChatMessage[],
+  temperature: number,
+  totalStages: number,
+  context?: ToolContext,
+): Promise<string> {
+  // Provider and model come from configuration (ai.toolProviders.apiTestGenerator / ai.models.apiTestGenerator)
+  // Provider failures propagate and are returned as isError results by the server
+  const { provider, model } = getProviderForTool("apiTestGenerator");
+  logger.info(`Calling ${provider.name} model: ${model}`);
+  await context?.reportProgress(`Calling ${provider.name} model: ${model}`, totalStages);
+  const response = await provider.complete({
+    model,
+    messages,
+    temperature,
+    timeoutMs: TIMEOUTS.apiTestGenerator,
+    signal: context?.signal,
+  });
+  return response.text;
+}
+
+// Extract code from the response if it's wrapped in markdown code blocks
+function extractTestCode(assistantMessage: string): string {
+  const codePattern = /\`\`\`(?:javascript|typescript|[cm]?[jt]sx?)?\s*([\s\S]*?)\`\`\`/;
+  const match = assistantMessage.match(codePattern);
+  return match ? match[1].trim() : assistantMessage;
+}
+
+function repairPrompt(files: GeneratedFile[], multiFile: boolean, verification: VerificationResult): string {
+  const problem = verification.typeErrors
+    ? `does not type-check (${verification.typeErrors} error(s))`
+    : `fails: ${verification.failed} of ${verification.total} tests failed`;
+  return `The suite saved as ${files.map((file) => file.path).join(", ")} ${problem}. Output:
+\`\`\`
+${verification.failureOutput ?? ""}
+\`\`\`
+
+Fix the test code so it compiles and the tests pass against the API as implemented. Do not delete or skip tests to make the run pass; if a test asserts behavior the API clearly does not have, correct the assertion.
+${multiFile
+  ? "Return only the files you change, each complete, in the same format: a line `FILE: <path>` followed by one code block."
+  : "Return the complete corrected file in a single code block."}`;
+}
+
+// How the model should lay out a multi-file suite
+function multiFileInstructions(framework: TestFramework, outputFormat: "javascript" | "typescript"): string {
+  const suite = (name: string) => testFileName(name, framework, outputFormat);
+  const extension = path.extname(suite("x")).slice(1);
+  return `Split the suite into several files:
+- One test file per resource or router, named ${suite("<resource>")} (e.g. ${suite("users")}, ${suite("orders")})
+- Shared fixtures (sample payloads, factories) in fixtures/<name>.${extension}
+- Shared helpers (app/client setup, auth tokens, assertions) in helpers/<name>.${extension}
+- Mock setup for external dependencies and the database in mocks/<name>.${extension}
+Import fixtures, helpers and mocks from the test files with relative paths. Output each file as a line \`FILE: <path>\` followed by one code block.`;
+}
+
+// Apply a model response to the current files: a manifest in multi-file mode, otherwise the single suite's code.
+// Manifest entries that were dropped are described in `problems`
+function applyResponse(files: GeneratedFile[], response: string, multiFile: boolean): { files: GeneratedFile[]; problems: string[] } {
+  if (!multiFile) {
+    return { files: [{ ...files[0], content: extractTestCode(response) }], problems: [] };
   }
+  const { files: changed, rejected, unparsed } = parseFileManifest(response);
+  const problems = [
+    ...rejected.map((file) => `${file}: outside testDir, not written`),
+    ...unparsed.map((header) => `"${header}": no file path or code block could be read, not written`),
+  ];
+  problems.forEach((problem) => logger.warning(`Ignoring generated file ${problem}`));
+  const byPath = new Map(files.map((file) => [file.path, file]));
+  for (const file of changed) byPath.set(file.path, file);
+  return { files: [...byPath.values()], problems };
 }
 
 export async function runAPITestGenerator(
   args: z.infer<typeof APITestGeneratorSchema>,
-) {
+  context?: ToolContext,
+): Promise<CallToolResult> {
   logger.highlight(`🧪 Generating API tests with args: ${JSON.stringify(args, null, 2)}`);
   
-  // Instantiate the OpenAI client
-  const openai = new OpenAI({
-    apiKey: OPENAI_API_KEY,
-  });
-
   const { 
-    spec, 
     framework, 
     outputFormat, 
-    testDir, 
     endpoints, 
-    currentFilePath, 
     contextType = 'file',
-    projectRoot 
   } = args;
+
+  if ((args.verify || args.dryRun) && !args.testDir) {
+    throw new ToolError("INVALID_ARGUMENTS", `${args.verify ? "verify" : "dryRun"} requires testDir`);
+  }
+  if (args.verify && !config.tools.apitests.allowVerify) {
+    throw new ToolError(
+      "INVALID_ARGUMENTS",
+      "verify is disabled on this server: it runs the generated code. Set tools.apitests.allowVerify to enable it",
+    );
+  }
+  if (args.verify && args.dryRun) {
+    throw new ToolError("INVALID_ARGUMENTS", "verify runs the saved suite, so it cannot be combined with dryRun");
+  }
+  if (args.multiFile && args.onConflict === "suffix") {
+    throw new ToolError("INVALID_ARGUMENTS", 'onConflict "suffix" cannot be used with multiFile: renamed files would break the imports between them');
+  }
+
+  // Every path argument must resolve inside the workspace roots
+  const testDir = args.testDir && resolveWorkspacePath(args.testDir, "testDir");
+  const currentFilePath = args.currentFilePath && resolveWorkspacePath(args.currentFilePath, "currentFilePath");
+  const projectRoot = args.projectRoot && resolveWorkspacePath(args.projectRoot, "projectRoot");
+
+  // A structured spec replaces the raw text in the prompt; anything else (e.g. route code) is used as-is
+  const { text: spec, sourceFile } = await readSpecInput(args.spec);
+  const apiSpec = parseOpenApiText(spec, sourceFile);
+  const selection = apiSpec ? selectOperations(apiSpec, endpoints) : undefined;
+  if (apiSpec && selection) {
+    logger.info(`Parsed ${apiSpec.format} spec with ${apiSpec.operations.length} operations, generating tests for ${selection.operations.length}`);
+  }
+
+  // Stages reported as MCP progress: collect context (with currentFilePath), call model, write file (with testDir),
+  // then with verify a test run plus a model call, write and test run per repair round
+  const totalStages = (currentFilePath ? 1 : 0) + 1 + (testDir ? 1 : 0) + (args.verify ? 1 + 3 * args.maxRepairRounds : 0);
   
   // Get context-aware additional information
   let contextData = '';
@@ -159,29 +324,29 @@ export async function runAPITestGenerator(
   
   if (currentFilePath) {
     logger.info(`Context provided: ${currentFilePath} (type: ${contextType})`);
+    await context?.reportProgress(`Collecting related files for ${path.basename(currentFilePath)}`, totalStages);
     
     // Collect related files to provide context
-    const relatedFiles = await getRelatedFiles(currentFilePath, contextType, projectRoot);
+    const { files: relatedFiles, omitted } = await getRelatedFiles(currentFilePath, contextType, {
+      projectRoot,
+      importDepth: args.importDepth,
+      tokenBudget: args.contextTokenBudget,
+    });
+    if (omitted.length > 0) {
+      logger.info(`Left out ${omitted.length} related files over the ${args.contextTokenBudget} token budget: ${omitted.join(", ")}`);
+    }
     
     if (relatedFiles.length > 0) {
       logger.info(`Analyzing ${relatedFiles.length} related files for context`);
       
-      // Read the content of all related files
-      let contextFiles = '';
-      for (const filePath of relatedFiles) {
-        try {
-          const content = await fs.promises.readFile(filePath, 'utf8');
+      const contextFiles = relatedFiles
+        .map(({ path: filePath, content }) => {
           const relativePath = projectRoot ? path.relative(projectRoot, filePath) : filePath;
-          contextFiles += `\n/* File: ${relativePath} */\n${content}\n\n`;
-        } catch (error) {
-          logger.warning(`Could not read file ${filePath}: ${error}`);
-        }
-      }
-      
-      if (contextFiles) {
-        contextData = `\n\nADDITIONAL CONTEXT (related files):\n${contextFiles}`;
-        shouldFocusOnSpec = false;
-      }
+          return `\n/* File: ${relativePath} */\n${content}\n\n`;
+        })
+        .join('');
+      contextData = `\n\nADDITIONAL CONTEXT (related files):\n${contextFiles}`;
+      shouldFocusOnSpec = false;
     }
   }
   
@@ -191,27 +356,28 @@ export async function runAPITestGenerator(
   
   // Extract endpoints from context if available
   const extractedEndpoints = new Set<string>();
-  
+  let routeInfo = "";
+
+  // Endpoint mode: routes, their mounted paths, handlers and validators come from parsing the code
   if (currentFilePath && contextType === 'endpoint') {
-    try {
-      const content = await fs.promises.readFile(currentFilePath, 'utf8');
-      const routeMatches = content.match(/\.(get|post|put|delete|patch)\(['"]([^'"]+)['"]/g);
-      
-      if (routeMatches) {
-        for (const match of routeMatches) {
-          const endpointMatch = match.match(/(['"])([^'"]+)\1/);
-          if (endpointMatch && endpointMatch[2]) {
-            extractedEndpoints.add(endpointMatch[2]);
-          }
-        }
-      }
-    } catch (error) {
-      logger.warning(`Could not extract endpoints from file: ${error}`);
+    const include = sandboxFilter(projectRoot);
+    const routes = selectRoutes(await extractRoutes(currentFilePath, { projectRoot, include }), endpoints);
+    logger.info(`Found ${routes.length} routes in ${path.basename(currentFilePath)}`);
+    if (routes.length > 0) {
+      routes.forEach((route) => extractedEndpoints.add(route.path));
+      // Handlers defined elsewhere (controllers) are not part of the related files, so include their code
+      const handlerSources = new Set(
+        routes
+          .filter((route) => route.handler?.source && route.handler.file !== currentFilePath && include(route.handler.file))
+          .map((route) => `/* ${route.handler!.name} (${path.basename(route.handler!.file)}:${route.handler!.line}) */\n${route.handler!.source}`),
+      );
+      routeInfo = `\n\nROUTES (found by parsing ${path.basename(currentFilePath)}):\n${routes.map((route) => `- ${describeRoute(route)}`).join("\n")}`
+        + (handlerSources.size > 0 ? `\n\nHANDLERS defined in other files:\n${[...handlerSources].join("\n\n")}` : "");
     }
   }
   
-  // Add explicitly specified endpoints
-  if (endpoints && endpoints.length > 0) {
+  // Add explicitly specified endpoints (a parsed spec and parsed routes are filtered by them instead)
+  if (!selection && extractedEndpoints.size === 0 && endpoints && endpoints.length > 0) {
     endpoints.forEach(ep => extractedEndpoints.add(ep));
   }
   
@@ -220,6 +386,7 @@ export async function runAPITestGenerator(
     endpointInfo = `\nFocus specifically on these endpoints: ${Array.from(extractedEndpoints).join(", ")}`;
     logger.info(`Found ${extractedEndpoints.size} endpoints to focus on`);
   }
+  endpointInfo += routeInfo;
   
   // Create a filename for the test
   let suggestedFileName = "api";
@@ -237,11 +404,31 @@ export async function runAPITestGenerator(
     }
   }
   
+  // Parsed specs are described operation by operation
+  if (apiSpec && selection) {
+    const header = [
+      `${apiSpec.title ?? "API"}${apiSpec.version ? ` ${apiSpec.version}` : ""} (${apiSpec.format === "openapi-3" ? "OpenAPI" : "Swagger"} ${apiSpec.specVersion})`,
+      ...(apiSpec.servers.length > 0 ? [`Servers: ${apiSpec.servers.join(", ")}`] : []),
+    ];
+    focusedSpec = `${header.join("\n")}\n\n${selection.operations.map(formatOperation).join("\n\n")}`;
+    endpointInfo += framework === "pact"
+      ? `\nWrite one describe block per operation above, named after its method and path, with one Pact interaction per documented response status. Derive request and response bodies from the schemas, with matchers for every field, and a provider state for each interaction (e.g. "user 42 exists").`
+      : `\nWrite one describe block per operation above, named after its method and path, with a test for every documented response status plus validation of required parameters and request body fields.`;
+  }
+
+  // Contract tests name both sides; the provider is the API being described
+  const pactInfo = framework === "pact"
+    ? `\nPact consumer name: "${args.pactConsumer ?? "api-consumer"}". Pact provider name: "${args.pactProvider ?? apiSpec?.title ?? "api-provider"}".`
+      + `\nIf no API client is part of the context, write a small client (fetch-based, base URL as a parameter) for the consumer side and test through it.`
+    : "";
+
+  const filename = testFileName(suggestedFileName, framework, outputFormat);
+
   // Prepare the system prompt with detailed instructions about the expected output format
   const systemPrompt = `You are an expert API test engineer. Generate comprehensive test suites for APIs based on specifications or code.
 
 Your tests must follow these strict requirements:
-1. Write tests in ${outputFormat} using the ${framework} framework
+1. Write tests in ${outputFormat} using the ${framework} framework. ${FRAMEWORK_PROFILES[framework].guidance}
 2. Include tests for edge cases, validations, error conditions, and success scenarios
 3. Use proper mocking for external dependencies and database calls
 4. Follow best practices for the specified test framework
@@ -259,7 +446,9 @@ FORMAT REQUIREMENTS:
 - Add detailed comments explaining complex test logic
 - Format code with proper indentation and spacing
 
-IMPORTANT: DO NOT include any explanations outside the code blocks. Return ONLY valid ${outputFormat} code that can be directly saved to a file and executed.`;
+${args.multiFile
+  ? `IMPORTANT: DO NOT include any explanations. Return several files, each as a line \`FILE: <path relative to the test directory>\` followed by exactly one code block of valid ${outputFormat} code that can be saved to that path.`
+  : `IMPORTANT: DO NOT include any explanations outside the code blocks. Return ONLY valid ${outputFormat} code that can be directly saved to a file and executed.`}`;
 
   // Define the user prompt
   const userPrompt = `Generate a comprehensive test suite for the following API ${outputFormat === "typescript" ? "in TypeScript" : "in JavaScript"} using the ${framework} framework.
@@ -268,72 +457,146 @@ API Specification or Code:
 \`\`\`
 ${focusedSpec}
 \`\`\`
-${endpointInfo}
+${endpointInfo}${pactInfo}
 ${!shouldFocusOnSpec ? contextData : ''}
 
 ${currentFilePath ? `Based on the context, this test should be focused on testing the functionality in: ${path.basename(currentFilePath)}` : ''}
-${suggestedFileName ? `Suggested filename for this test: ${suggestedFileName}.test.${outputFormat === 'typescript' ? 'ts' : 'js'}` : ''}
+${args.multiFile ? multiFileInstructions(framework, outputFormat) : `Suggested filename for this test: ${filename}`}
 
-Return a complete, runnable test suite that I can save directly to a file. Follow all format requirements strictly.`;
+Return a complete, runnable test suite that I can save directly to ${args.multiFile ? "the listed files" : "a file"}. Follow all format requirements strictly.`;
 
-  try {
-    logger.info(`Calling OpenAI model: ${MODEL_FOR_TOOL_API_TEST_GENERATOR}`);
-    const response = await openai.chat.completions.create({
-      model: MODEL_FOR_TOOL_API_TEST_GENERATOR,
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt },
-      ],
-      temperature: 0.5, // higher temperature = more "creative" test scenarios
-    });
+  const messages: ChatMessage[] = [
+    { role: "system", content: systemPrompt },
+    { role: "user", content: userPrompt },
+  ];
+  let assistantMessage = await completeTestSuite(messages, 0.5, totalStages, context); // higher temperature = more "creative" test scenarios
 
-    // Extract the content from the assistant's message
-    const assistantMessage = response.choices?.[0]?.message?.content ?? "No response from model.";
-    
-    // Extract code from the response if it's wrapped in markdown code blocks
-    const codePattern = /\`\`\`(?:javascript|typescript|js|ts)?\s*([\s\S]*?)\`\`\`/;
-    const match = assistantMessage.match(codePattern);
-    const testCode = match ? match[1].trim() : assistantMessage;
-    
-    // Save the file if testDir is provided
-    if (testDir) {
-      try {
-        // Make sure the directory exists
-        if (!fs.existsSync(testDir)) {
-          fs.mkdirSync(testDir, { recursive: true });
-        }
-        
-        // Use the suggested filename if available
-        const filename = `${suggestedFileName}.test.${outputFormat === "typescript" ? "ts" : "js"}`;
-        
-        // Save the file
-        const filePath = path.join(testDir, filename);
-        fs.writeFileSync(filePath, testCode);
-        logger.success(`Test file saved to: ${filePath}`);
-      } catch (err: any) {
-        logger.error(`Failed to save test file: ${err.message}`);
-      }
+  // Everything generated, as files relative to testDir; a multi-file response without FILE entries is one suite
+  const initial = args.multiFile ? applyResponse([], assistantMessage, true) : { files: [], problems: [] };
+  let files = initial.files;
+  const manifestProblems = [...initial.problems];
+  const multiFile = files.length > 0;
+  if (!multiFile) {
+    if (args.multiFile) logger.warning("The response has no FILE entries; treating it as a single suite");
+    files = [{ path: filename, kind: "suite", content: extractTestCode(assistantMessage) }];
+  }
+  
+  // Save the files if testDir is provided; every file is planned before any is written, so a conflict writes nothing
+  let plans: WritePlan[] = [];
+  const planFor = (file: GeneratedFile, previous?: WritePlan) =>
+    previous
+      ? withCode(previous, file.content)
+      // Generated paths cannot contain "..", but a symlink under testDir could still lead out of the workspace
+      : planTestFileWrite(resolveWorkspacePath(path.join(testDir!, file.path), "testDir"), file.content, args.onConflict, args.dryRun);
+  if (testDir) {
+    plans = files.map((file) => planFor(file));
+    if (!args.dryRun) {
+      await context?.reportProgress(`Writing ${plans.map((plan) => path.basename(plan.path)).join(", ")}`, totalStages);
+      plans.forEach(writePlannedFile);
     }
+  }
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: `# API Test Suite Generated (${framework} - ${outputFormat})\n\`\`\`${outputFormat}\n${testCode}\n\`\`\``,
-        },
-      ],
-    };
-  } catch (error: any) {
-    logger.error(`OpenAI Error: ${error.message || error}`);
-    
-    // If the request fails, return the error as text
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Error generating API tests: ${error.message || error}`,
-        },
-      ],
-    };
+  // Verify-and-repair: run the saved suites and hand compiler/test failures back to the model
+  let verification: VerificationResult | undefined;
+  let repairRounds = 0;
+  if (args.verify && testDir && plans.length > 0) {
+    const runRoot = projectRoot ?? findProjectRoot(plans[0].path);
+    if (!runRoot) {
+      throw new ToolError("INVALID_ARGUMENTS", `No package.json found above ${testDir}; pass projectRoot to verify the suite`);
+    }
+    const verify = () => verifyTestFiles(
+      plans.filter((_, index) => files[index].kind === "suite").map((plan) => plan.path),
+      plans.filter((_, index) => files[index].kind === "support").map((plan) => plan.path),
+      framework,
+      runRoot,
+      context?.signal,
+    );
+    await context?.reportProgress(`Verifying ${filename}`, totalStages);
+    verification = await verify();
+    while (verification.status === "failed" && repairRounds < args.maxRepairRounds) {
+      repairRounds++;
+      logger.info(`Repair round ${repairRounds}: ${describeVerification(verification)}`);
+      messages.push(
+        { role: "assistant", content: assistantMessage },
+        { role: "user", content: repairPrompt(files, multiFile, verification) },
+      );
+      // Lower temperature: the repair should change what failed, not rewrite the suite
+      assistantMessage = await completeTestSuite(messages, 0.2, totalStages, context);
+      const repaired = applyResponse(files, assistantMessage, multiFile);
+      files = repaired.files;
+      manifestProblems.push(...repaired.problems);
+      // Repairs rewrite the same files (merges restart from the original content); new files are planned as usual
+      plans = files.map((file, index) => planFor(file, plans[index]));
+      await context?.reportProgress(`Writing repaired files (round ${repairRounds})`, totalStages);
+      plans.forEach(writePlannedFile);
+      await context?.reportProgress(`Verifying ${filename} (round ${repairRounds})`, totalStages);
+      verification = await verify();
+    }
+    logger.info(`Verification ${describeVerification(verification)}`);
   }
-}
\ No newline at end of file
+
+  const coverage = selection
+    ? `Operations covered (${selection.operations.length}): ${selection.operations.map(describeOperation).join(", ")}\n`
+      + (selection.unmatched.length > 0 ? `Endpoints not found in the spec: ${selection.unmatched.join(", ")}\n` : "")
+      + "\n"
+    : "";
+
+  const manifestSummary = manifestProblems.length > 0
+    ? `Generated files that were dropped:\n${manifestProblems.map((problem) => `- ${problem}`).join("\n")}\n\n`
+    : "";
+
+  const verificationSummary = verification
+    ? `Verification: ${describeVerification(verification)}${repairRounds > 0 ? ` after ${repairRounds} repair round(s)` : ""}\n`
+      + (verification.status !== "passed" && verification.failureOutput ? `\nRemaining failures:\n\`\`\`\n${verification.failureOutput}\n\`\`\`\n` : "")
+      + "\n"
+    : "";
+
+  // Where the suite went, or with dryRun where it would go and the diff against what is there now
+  let saved = "";
+  if (testDir && plans.length > 0) {
+    const list = (prefix: string) => plans.length === 1
+      ? `${prefix}: ${describeWritePlan(plans[0])}\n`
+      : `${prefix}:\n${plans.map((plan) => `- ${describeWritePlan(plan)}`).join("\n")}\n`;
+    if (args.dryRun) {
+      const diff = plans.map((plan) => diffPlannedFile(plan, projectRoot ?? testDir)).join("");
+      saved = `${list("Dry run, nothing written")}\n` + (diff ? `\`\`\`diff\n${diff}\`\`\`\n\n` : "No changes.\n\n");
+    } else {
+      saved = list("Saved");
+    }
+  }
+
+  const code = multiFile
+    ? files.map((file) => `FILE: ${file.path}\n\`\`\`${outputFormat}\n${file.content.trimEnd()}\n\`\`\``).join("\n\n")
+    : `\`\`\`${outputFormat}\n${files[0].content}\n\`\`\``;
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: `# API Test Suite Generated (${framework} - ${outputFormat})\n${saved}${coverage}${manifestSummary}${verificationSummary}${code}`,
+      },
+    ],
+    // The manifest: paths are relative to testDir; savedTo/action are present when testDir is given
+    structuredContent: {
+      files: files.map((file, index) => ({
+        ...file,
+        ...(plans[index] && { savedTo: plans[index].path, action: plans[index].action }),
+      })),
+      ...(manifestProblems.length > 0 && { droppedFiles: manifestProblems }),
+      ...(verification && { verification: { ...verification, repairRounds } }),
+    },
+  };
+}
+
+// Tool definition (registered in src/tools/index.ts)
+export const apiTestGeneratorTool = defineTool({
+  name: apiTestGeneratorToolName,
+  description: apiTestGeneratorToolDescription,
+  schema: APITestGeneratorSchema,
+  handler: async (args, context) => {
+    logger.highlight(`🧪 Generating API tests for: ${args.currentFilePath || 'API Spec/Code'}`);
+    const result = await runAPITestGenerator(args, context);
+    logger.success(`API test generation completed successfully!`);
+    return result;
+  },
+});
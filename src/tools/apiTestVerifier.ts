@@ -0,0 +1,318 @@
+// src/tools/apiTestVerifier.ts
+
+/**
+ * Verification of generated API tests
+ *   - Type-checks TypeScript suites against the project's tsconfig.json
+ *   - Runs the suite with the project's own test runner (Jest, Vitest, Mocha, Playwright, Cypress or `node --test`)
+ *     and reads its JSON (or, for node:test, TAP) report
+ *   - Returns pass/fail counts and the failure output the model gets to repair from
+ */
+
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { TIMEOUTS } from "../config/config.js";
+import logger from "../utils/logger.js";
+import { isInsideWorkspace, resolveWorkspacePath } from "../utils/workspace.js";
+import { FRAMEWORK_PROFILES, type TestFramework, type TestRunner } from "./apiTestFrameworks.js";
+import { findBinary, runCommand } from "./command.js";
+
+// Failure output fed back to the model is capped so repair prompts stay small
+const MAX_FAILURE_OUTPUT = 8000;
+
+export interface VerificationResult {
+  // skipped = nothing could be run (no runner installed), error = the runner ran but its report was unreadable
+  status: "passed" | "failed" | "skipped" | "error";
+  runner?: TestRunner;
+  // Present when the suite was type-checked
+  typeErrors?: number;
+  passed: number;
+  failed: number;
+  total: number;
+  // Compiler errors or failing tests, for the repair prompt
+  failureOutput?: string;
+  detail?: string;
+}
+
+// The directory with the project's package.json, from a test file upwards without leaving the workspace
+export function findProjectRoot(testFile: string): string | undefined {
+  for (let dir = path.dirname(testFile); ; dir = path.dirname(dir)) {
+    if (!isInsideWorkspace(dir)) return undefined;
+    if (fs.existsSync(path.join(dir, "package.json"))) return dir;
+    if (path.dirname(dir) === dir) return undefined;
+  }
+}
+
+// The first installed runner for a framework. node:test suites run on Node itself, or through tsx when written in TypeScript
+function pickRunner(framework: TestFramework, suites: string[], projectRoot: string): { runner: TestRunner; binary: string } | undefined {
+  for (const runner of FRAMEWORK_PROFILES[framework].runners) {
+    if (runner === "node") {
+      if (!suites.some((suite) => /\.[cm]?tsx?$/.test(suite))) return { runner, binary: process.execPath };
+      const tsx = findBinary("tsx", projectRoot);
+      if (tsx) return { runner, binary: tsx };
+      continue;
+    }
+    const binary = findBinary(runner, projectRoot);
+    if (binary) return { runner, binary };
+  }
+  return undefined;
+}
+
+function truncate(output: string): string {
+  const trimmed = output.trim();
+  return trimmed.length > MAX_FAILURE_OUTPUT ? `${trimmed.slice(0, MAX_FAILURE_OUTPUT)}\n... (truncated)` : trimmed;
+}
+
+// The fields read from each runner's JSON report; all optional, as a run that crashed may write a partial one
+interface JestReport {
+  numPassedTests?: number;
+  numFailedTests?: number;
+  numTotalTests?: number;
+  testResults?: Array<{ message?: string }>;
+}
+
+interface MochaReport {
+  stats?: { passes?: number; failures?: number; tests?: number };
+  failures?: Array<{ fullTitle?: string; err?: { message?: string; stack?: string } }>;
+}
+
+interface PlaywrightSuite {
+  specs?: Array<{ title?: string; tests?: Array<{ results?: Array<{ error?: { message?: string } }> }> }>;
+  suites?: PlaywrightSuite[];
+}
+
+interface PlaywrightReport {
+  stats?: { expected?: number; unexpected?: number; flaky?: number; skipped?: number };
+  suites?: PlaywrightSuite[];
+  errors?: Array<{ message?: string }>;
+}
+
+function parseObject(text: string): object | undefined {
+  try {
+    const value: unknown = JSON.parse(text);
+    return typeof value === "object" && value !== null && !Array.isArray(value) ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Runners print their JSON report to stdout, possibly after console output from the tests
+function parseJsonReport(stdout: string): object | undefined {
+  const report = parseObject(stdout);
+  if (report) return report;
+  const start = stdout.search(/^\{/m);
+  return start < 0 ? undefined : parseObject(stdout.slice(start));
+}
+
+// Type-check only the test files, with the project's compiler options (they may be excluded from tsconfig.json)
+async function typeCheck(files: string[], projectRoot: string, signal?: AbortSignal): Promise<{ errors: number; output: string } | undefined> {
+  const tsconfig = path.join(projectRoot, "tsconfig.json");
+  const binary = findBinary("tsc", projectRoot);
+  if (!binary || !fs.existsSync(tsconfig)) return undefined;
+
+  // A throwaway config next to the project's, so typeRoots and relative options resolve the same way
+  const checkConfig = path.join(projectRoot, `.apitests-tsconfig-${crypto.randomUUID()}.json`);
+  fs.writeFileSync(checkConfig, JSON.stringify({
+    extends: "./tsconfig.json",
+    compilerOptions: { noEmit: true, skipLibCheck: true },
+    files,
+    include: [],
+  }));
+  try {
+    const output = await runCommand(binary, ["--pretty", "false", "-p", checkConfig], {
+      cwd: projectRoot,
+      timeoutMs: TIMEOUTS.apiTestVerify,
+      signal,
+      description: "API test verification",
+    });
+    const errorLines = output.stdout.split("\n").filter((line) => /: error TS\d+:/.test(line));
+    return { errors: errorLines.length, output: output.stdout };
+  } finally {
+    fs.rmSync(checkConfig, { force: true });
+  }
+}
+
+function runnerArgs(runner: TestRunner, suites: string[]): string[] {
+  switch (runner) {
+    case "jest":
+      return ["--ci", "--json", "--runTestsByPath", ...suites];
+    case "vitest":
+      return ["run", "--reporter=json", ...suites];
+    case "node":
+      return ["--test", "--test-reporter=tap", ...suites];
+    case "mocha":
+      return ["--reporter", "json", ...suites];
+    case "playwright":
+      return ["test", ...suites, "--reporter=json"];
+    case "cypress":
+      return ["run", "--spec", suites.join(","), "--reporter", "json", "--quiet"];
+  }
+}
+
+// Counts and failing tests from `node --test` TAP output (`# tests 3`, `# pass 2`, `not ok 3 - name` + YAML block)
+function readTapReport(output: string): Omit<VerificationResult, "status" | "runner"> | undefined {
+  const count = (name: string) => Number(output.match(new RegExp(`^# ${name} (\\d+)$`, "m"))?.[1]);
+  const total = count("tests");
+  if (Number.isNaN(total)) return undefined;
+  // Each failing test with its indented diagnostics block
+  const lines = output.split("\n");
+  const failures: string[] = [];
+  lines.forEach((line, index) => {
+    const indent = line.match(/^(\s*)not ok \d+ - /)?.[1];
+    if (indent === undefined) return;
+    const end = lines.findIndex((next, nextIndex) => nextIndex > index && !next.startsWith(`${indent}  `));
+    failures.push(lines.slice(index, end < 0 ? undefined : end).join("\n"));
+  });
+  return {
+    passed: count("pass") || 0,
+    failed: count("fail") || 0,
+    total,
+    failureOutput: failures.join("\n"),
+  };
+}
+
+// Counts and failure messages from a runner's JSON report
+function readReport(runner: Exclude<TestRunner, "node">, parsed: object): Omit<VerificationResult, "status" | "runner"> {
+  switch (runner) {
+    // Vitest's JSON reporter uses Jest's format
+    case "jest":
+    case "vitest": {
+      const report = parsed as JestReport;
+      return {
+        passed: report.numPassedTests ?? 0,
+        failed: report.numFailedTests ?? 0,
+        total: report.numTotalTests ?? 0,
+        // Suites that fail to load (syntax errors, missing imports) have a message but no failed tests
+        failureOutput: (report.testResults ?? [])
+          .map((result) => result.message)
+          .filter(Boolean)
+          .join("\n\n"),
+      };
+    }
+    case "mocha":
+    case "cypress": {
+      const report = parsed as MochaReport;
+      return {
+        passed: report.stats?.passes ?? 0,
+        failed: report.stats?.failures ?? 0,
+        total: report.stats?.tests ?? 0,
+        failureOutput: (report.failures ?? [])
+          .map((failure) => `${failure.fullTitle ?? ""}: ${failure.err?.message ?? ""}\n${failure.err?.stack ?? ""}`)
+          .join("\n\n"),
+      };
+    }
+    case "playwright": {
+      const report = parsed as PlaywrightReport;
+      const stats = report.stats ?? {};
+      const failures: string[] = [];
+      const visit = (suite: PlaywrightSuite) => {
+        for (const spec of suite.specs ?? []) {
+          for (const test of spec.tests ?? []) {
+            for (const result of test.results ?? []) {
+              if (result.error?.message) failures.push(`${spec.title ?? ""}: ${result.error.message}`);
+            }
+          }
+        }
+        (suite.suites ?? []).forEach(visit);
+      };
+      (report.suites ?? []).forEach(visit);
+      const errors = (report.errors ?? []).map((error) => error.message ?? "");
+      return {
+        passed: (stats.expected ?? 0) + (stats.flaky ?? 0),
+        failed: stats.unexpected ?? 0,
+        total: (stats.expected ?? 0) + (stats.unexpected ?? 0) + (stats.flaky ?? 0) + (stats.skipped ?? 0),
+        failureOutput: [...errors, ...failures].join("\n\n"),
+      };
+    }
+  }
+}
+
+function readJsonReport(runner: Exclude<TestRunner, "node">, stdout: string): Omit<VerificationResult, "status" | "runner"> | undefined {
+  const report = parseJsonReport(stdout);
+  return report ? readReport(runner, report) : undefined;
+}
+
+// Type-check (TypeScript) the generated files and run the suites among them in their project
+export async function verifyTestFiles(
+  suites: string[],
+  supportFiles: string[],
+  framework: TestFramework,
+  projectRoot: string,
+  signal?: AbortSignal,
+): Promise<VerificationResult> {
+  // Type-checking and running the suite execute the project's binaries and config, so it must be in the workspace
+  resolveWorkspacePath(projectRoot, "projectRoot");
+  let typeErrors: number | undefined;
+  const typeScriptFiles = [...suites, ...supportFiles].filter((file) => /\.[cm]?tsx?$/.test(file));
+  if (typeScriptFiles.length > 0) {
+    const typeCheckResult = await typeCheck(typeScriptFiles, projectRoot, signal);
+    typeErrors = typeCheckResult?.errors;
+    if (typeCheckResult && typeCheckResult.errors > 0) {
+      // Running a suite that does not compile only repeats the compiler errors less clearly
+      return {
+        status: "failed",
+        typeErrors: typeCheckResult.errors,
+        passed: 0,
+        failed: 0,
+        total: 0,
+        failureOutput: truncate(typeCheckResult.output),
+        detail: `${typeCheckResult.errors} type error(s)`,
+      };
+    }
+  }
+
+  // Without a test file the runner would run the whole project's tests
+  if (suites.length === 0) {
+    return { status: "skipped", typeErrors, passed: 0, failed: 0, total: 0, detail: "no test files among the generated files" };
+  }
+  const picked = pickRunner(framework, suites, projectRoot);
+  if (!picked) {
+    const runners = FRAMEWORK_PROFILES[framework].runners.map((runner) => (runner === "node" ? "tsx" : runner));
+    return { status: "skipped", typeErrors, passed: 0, failed: 0, total: 0, detail: `none of ${runners.join(", ")} is installed in ${projectRoot}` };
+  }
+  const { runner, binary } = picked;
+  logger.info(`Running ${suites.map((suite) => path.basename(suite)).join(", ")} with ${runner}`);
+  const output = await runCommand(binary, runnerArgs(runner, suites), {
+    cwd: projectRoot,
+    timeoutMs: TIMEOUTS.apiTestVerify,
+    signal,
+    // Runners skip watch mode and interactive reporters in CI
+    env: { CI: "1" },
+    description: "API test verification",
+  });
+
+  const counts = runner === "node" ? readTapReport(output.stdout) : readJsonReport(runner, output.stdout);
+  if (!counts) {
+    // No report usually means the runner could not start (bad config, missing transform)
+    return {
+      status: "error",
+      runner,
+      typeErrors,
+      passed: 0,
+      failed: 0,
+      total: 0,
+      failureOutput: truncate(`${output.stderr}\n${output.stdout}`),
+      detail: `${runner} exited with code ${output.exitCode} without a ${runner === "node" ? "TAP" : "JSON"} report`,
+    };
+  }
+
+  const failed = counts.failed > 0 || output.exitCode !== 0;
+  return {
+    status: failed ? "failed" : "passed",
+    runner,
+    typeErrors,
+    ...counts,
+    failureOutput: failed ? truncate(counts.failureOutput || `${output.stderr}\n${output.stdout}`) : undefined,
+  };
+}
+
+// One-line summary for the tool result
+export function describeVerification(result: VerificationResult): string {
+  if (result.status === "skipped" || result.status === "error") {
+    return `${result.status}${result.detail ? ` (${result.detail})` : ""}`;
+  }
+  if (result.typeErrors) {
+    return `failed (${result.typeErrors} type error(s))`;
+  }
+  return `${result.status}: ${result.passed}/${result.total} tests passed, ${result.failed} failed (${result.runner})`;
+}
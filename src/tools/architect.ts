@@ -2,15 +2,16 @@
 
 /**
  * Architect tool
- *   - Calls an OpenAI model (o3-mini-01-31-24) to generate a series of steps
+ *   - Calls the configured model (default: OpenAI o3-mini) to generate a series of steps
  *   - Input: 'task' (description of the task), 'code' (one or more code files concatenated)
  */
 
 import { z } from "zod";
-//import { PORT } from "../env/config.js";
-import OpenAI from "openai";
-import { OPENAI_API_KEY } from "../env/keys.js";
-import { MODEL_FOR_TOOL_ARCHITECT } from "../config/ai.js";
+import { TIMEOUTS } from "../config/config.js";
+import { getProviderForTool } from "../providers/index.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import logger from "../utils/logger.js";
+import { defineTool, type ToolContext } from "./registry.js";
 
 
 // Define the tool name, description, and schema
@@ -18,58 +19,57 @@ export const architectToolName = "architect";
 export const architectToolDescription =
   "Analyzes a task description plus some code, then outlines steps for an AI coding agent.";
 export const ArchitectToolSchema = z.object({
-  task: z.string().min(1, "Task description is required."),
+  task: z.string().min(1, "Task description is required.").describe("Description of the task"),
   code: z
     .string()
-    .min(1, "Code string is required (one or more files concatenated)."),
+    .min(1, "Code string is required (one or more files concatenated).")
+    .describe("Concatenated code from one or more files"),
 });
 
 // Run the Architect tool
-// TODO: add a timeout
 export async function runArchitectTool(
   args: z.infer<typeof ArchitectToolSchema>,
-) {
-  // Instantiate the new OpenAI client
-  const openai = new OpenAI({
-    apiKey: OPENAI_API_KEY,
-  });
-
+  context?: ToolContext,
+): Promise<CallToolResult> {
   const { task, code } = args;
   const systemPrompt = `You are an expert software architect. Given a task and some code, outline the steps that the highly-capable Claude AI Coding Agent should take to complete or improve the code.`;
 
   // We'll prompt the model with both the task and code
   const userPrompt = `Task: ${task}\n\nCode:\n${code}\n\nPlease provide a step-by-step plan.`;
 
-  try {
-    const response = await openai.chat.completions.create({
-      model: MODEL_FOR_TOOL_ARCHITECT,
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt },
-      ],
-    });
-
-    // Extract the content from the assistant's message (if available)
-    const assistantMessage =
-      response.choices?.[0]?.message?.content ?? "No response from model.";
+  // Provider and model come from configuration (ai.toolProviders.architect / ai.models.architect)
+  // Provider failures propagate and are returned as isError results by the server
+  const { provider, model } = getProviderForTool("architect");
+  await context?.reportProgress(`Calling ${provider.name} model: ${model}`);
+  const response = await provider.complete({
+    model,
+    messages: [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: userPrompt },
+    ],
+    timeoutMs: TIMEOUTS.architect,
+    signal: context?.signal,
+  });
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: assistantMessage,
-        },
-      ],
-    };
-  } catch (error: any) {
-    // If the request fails, return the error as text
-    return {
-      content: [
-        {
-          type: "text",
-          text: `OpenAI Error: ${error.message || error}`,
-        },
-      ],
-    };
-  }
+  return {
+    content: [
+      {
+        type: "text",
+        text: response.text,
+      },
+    ],
+  };
 }
+
+// Tool definition (registered in src/tools/index.ts)
+export const architectTool = defineTool({
+  name: architectToolName,
+  description: architectToolDescription,
+  schema: ArchitectToolSchema,
+  handler: async (args, context) => {
+    logger.highlight(`🏗️ Running architect tool with task: ${args.task.substring(0, 50)}...`);
+    const result = await runArchitectTool(args, context);
+    logger.success(`Architect tool completed successfully!`);
+    return result;
+  },
+});
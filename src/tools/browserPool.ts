@@ -0,0 +1,187 @@
+// src/tools/browserPool.ts
+
+/**
+ * Headless Chromium pool for the screenshot tool
+ *   - Browsers stay warm between calls and are closed after `browser.idleTimeoutMs` unused
+ *   - Every call gets its own incognito browser context (cookies, storage and cache are not shared),
+ *     which is closed when the call ends, whether it succeeded, failed or was cancelled
+ *   - A crashed or disconnected browser is dropped and the next call launches a fresh one
+ *   - At most `browser.maxConcurrentPages` pages are open at once; further calls wait in order
+ */
+
+import puppeteer, { type Browser, type Page } from "puppeteer";
+import { BROWSER } from "../config/config.js";
+import logger from "../utils/logger.js";
+import { ToolError } from "./errors.js";
+
+const LAUNCH_ARGS = [
+  "--no-sandbox",
+  "--disable-setuid-sandbox",
+  "--disable-dev-shm-usage",
+  "--disable-accelerated-2d-canvas",
+  "--disable-gpu",
+  "--no-first-run",
+];
+
+interface PooledBrowser {
+  // Resolves once Chromium is up; shared by every call that picks this entry while it launches
+  ready: Promise<Browser>;
+  // Calls currently holding a page in this browser
+  active: number;
+  idleTimer?: NodeJS.Timeout;
+}
+
+const browsers: PooledBrowser[] = [];
+
+// Concurrency limit over all browsers: callers waiting for a page, first come first served
+let openPages = 0;
+const waiting: Array<() => void> = [];
+
+function acquirePageSlot(signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.reject(new ToolError("CANCELLED", "Screenshot was cancelled"));
+  }
+  if (openPages < BROWSER.maxConcurrentPages) {
+    openPages++;
+    return Promise.resolve();
+  }
+  return new Promise((resolve, reject) => {
+    const grant = () => {
+      signal?.removeEventListener("abort", onAbort);
+      openPages++;
+      resolve();
+    };
+    const onAbort = () => {
+      waiting.splice(waiting.indexOf(grant), 1);
+      reject(new ToolError("CANCELLED", "Screenshot was cancelled while waiting for a browser page"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+    waiting.push(grant);
+  });
+}
+
+function releasePageSlot(): void {
+  openPages--;
+  waiting.shift()?.();
+}
+
+function removeBrowser(entry: PooledBrowser): void {
+  const index = browsers.indexOf(entry);
+  if (index >= 0) browsers.splice(index, 1);
+  clearTimeout(entry.idleTimer);
+}
+
+function launchBrowser(): PooledBrowser {
+  logger.info(`Launching browser (${browsers.length + 1}/${BROWSER.maxBrowsers})`);
+  const entry: PooledBrowser = {
+    active: 0,
+    ready: puppeteer.launch({
+      args: LAUNCH_ARGS,
+      headless: true,
+      // Shutdown is handled by closeBrowserPool(); Puppeteer still kills Chromium if the process exits
+      handleSIGINT: false,
+      handleSIGTERM: false,
+      handleSIGHUP: false,
+    }),
+  };
+  browsers.push(entry);
+  entry.ready.then(
+    (browser) => browser.on("disconnected", () => {
+      if (browsers.includes(entry)) logger.warning("Browser disconnected; it will be relaunched on the next screenshot");
+      removeBrowser(entry);
+    }),
+    () => removeBrowser(entry),
+  );
+  return entry;
+}
+
+// The least busy browser, or a new one while an idle browser is not available and the pool has room
+function pickBrowser(): PooledBrowser {
+  const leastBusy = browsers.reduce<PooledBrowser | undefined>(
+    (best, entry) => (!best || entry.active < best.active ? entry : best),
+    undefined,
+  );
+  if (leastBusy && (leastBusy.active === 0 || browsers.length >= BROWSER.maxBrowsers)) {
+    return leastBusy;
+  }
+  return launchBrowser();
+}
+
+function scheduleIdleClose(entry: PooledBrowser): void {
+  if (entry.active > 0 || BROWSER.idleTimeoutMs === 0 || !browsers.includes(entry)) return;
+  entry.idleTimer = setTimeout(() => {
+    removeBrowser(entry);
+    logger.info("Closing idle browser");
+    entry.ready.then((browser) => browser.close()).catch(() => undefined);
+  }, BROWSER.idleTimeoutMs);
+  // An idle browser does not keep the server alive
+  entry.idleTimer.unref();
+}
+
+// Run `fn` with a fresh page in its own incognito context; the context is always closed afterwards
+export async function withPage<T>(fn: (page: Page) => Promise<T>, signal?: AbortSignal): Promise<T> {
+  await acquirePageSlot(signal);
+  let entry: PooledBrowser | undefined;
+  try {
+    let browser: Browser | undefined;
+    // A browser that died while idle is dropped and replaced once
+    for (let attempt = 0; !browser; attempt++) {
+      entry = pickBrowser();
+      entry.active++;
+      clearTimeout(entry.idleTimer);
+      const candidate = await entry.ready;
+      if (candidate.connected) {
+        browser = candidate;
+      } else {
+        entry.active--;
+        removeBrowser(entry);
+        entry = undefined;
+        if (attempt > 0) throw new ToolError("UPSTREAM_ERROR", "The browser disconnected before a page could be opened");
+      }
+    }
+
+    const context = await browser.createBrowserContext();
+    // Closing the context on cancellation makes the pending navigation or capture reject
+    const onAbort = () => context.close().catch(() => undefined);
+    signal?.addEventListener("abort", onAbort, { once: true });
+    try {
+      const page = await context.newPage();
+      return await fn(page);
+    } catch (error) {
+      if (signal?.aborted) throw new ToolError("CANCELLED", "Screenshot was cancelled");
+      throw error;
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+      await context.close().catch(() => undefined);
+    }
+  } finally {
+    if (entry) {
+      entry.active--;
+      scheduleIdleClose(entry);
+    }
+    releasePageSlot();
+  }
+}
+
+// Launch the first browser ahead of the first screenshot (browser.prewarm)
+export function prewarmBrowserPool(): void {
+  if (browsers.length > 0) return;
+  const entry = launchBrowser();
+  entry.ready.then(
+    () => scheduleIdleClose(entry),
+    (error) => logger.warning(`Browser prewarm failed: ${error}`),
+  );
+}
+
+// Close every browser (server shutdown); calls still running fail with a disconnected browser
+export async function closeBrowserPool(): Promise<void> {
+  const entries = browsers.splice(0);
+  await Promise.all(entries.map(async (entry) => {
+    clearTimeout(entry.idleTimer);
+    try {
+      await (await entry.ready).close();
+    } catch {
+      // Already gone
+    }
+  }));
+}
@@ -2,46 +2,246 @@
 
 /**
  * CodeReview tool
- *   - Takes in a file path and runs "git diff main -- <filePath>"
- *   - Returns the diff along with instructions to review and fix issues
+ *   - Diffs the repository at "folderPath" against a base ref (default: merge-base of HEAD with the main branch)
+ *   - Covers committed, staged, unstaged and untracked changes, filtered by path globs and capped in size
+ *   - Runs the repository's own tsc/ESLint/Prettier on the changed files (see codeReviewChecks.ts)
+ *   - Returns the diff along with instructions to review and fix issues, or with mode "model",
+ *     structured findings from the configured model (see codeReviewModel.ts)
  */
 
 import { z } from "zod";
-import { execSync } from "child_process";
-//import { PORT } from "../env/config.js"; // not needed for this tool
-//import OpenAI from "openai";
-//import { OPENAI_API_KEY } from "../env/keys.js"; // not needed for this tool
-//import { MODEL_FOR_TOOL_CODE_REVIEW } from "../env/ai.js"; // Code Review Tool does not use an external AI model
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import logger from "../utils/logger.js";
+import { runGit, resolveRef, findMainBranch, findRepoRoot } from "../utils/git.js";
+import { splitDiff } from "../utils/diff.js";
+import { resolveWorkspacePath } from "../utils/workspace.js";
+import { defineTool, type ToolContext } from "./registry.js";
+import { ToolError } from "./errors.js";
+import { reviewWithModel, formatModelReview } from "./codeReviewModel.js";
+import { CHECK_TOOLS, runChecks, formatChecks, toSarif } from "./codeReviewChecks.js";
+import fs from "fs";
 
 
 // Define the tool name, description, and schema
 export const codeReviewToolName = "code-review";
 export const codeReviewToolDescription =
-  "Run a git diff against main on a specified file and provide instructions to review/fix issues.";
+  "Diff a repository against a base ref (default: merge-base with the main branch), including uncommitted and untracked files, and provide instructions to review/fix issues. With mode 'model', the configured model reviews the diff and returns structured findings.";
+
+// Refs are passed to git as arguments, so they must not look like options
+const GitRefSchema = z
+  .string()
+  .min(1)
+  .refine((ref) => !ref.startsWith("-"), "Git refs must not start with '-'.");
+
 export const CodeReviewToolSchema = z.object({
-  folderPath: z.string().min(1, "A folder path is required."),
+  folderPath: z
+    .string()
+    .min(1, "A folder path is required.")
+    .describe("Path to the full root directory of the repository to review"),
+  baseRef: GitRefSchema.optional()
+    .describe("Branch, tag or commit to review against; the diff starts at its merge-base with HEAD (default: the main branch)"),
+  changes: z.enum(["committed", "staged", "all"]).default("all")
+    .describe("Which changes to include: 'committed' (base...HEAD), 'staged' (plus the index), 'all' (plus the working tree)"),
+  includeUntracked: z.boolean().default(true)
+    .describe("Include untracked (not ignored) files as new files"),
+  include: z.array(z.string().min(1)).optional()
+    .describe("Only review paths matching these globs, relative to folderPath (e.g. 'src/**/*.ts')"),
+  exclude: z.array(z.string().min(1)).optional()
+    .describe("Skip paths matching these globs (e.g. '**/*.lock', 'dist/**')"),
+  maxFileBytes: z.number().int().positive().default(20_000)
+    .describe("Truncate each file's diff to this many bytes"),
+  maxTotalBytes: z.number().int().positive().default(200_000)
+    .describe("Stop adding file diffs once the output reaches this many bytes"),
+  mode: z.enum(["diff", "model"]).default("diff")
+    .describe("'diff' returns the diff with review instructions; 'model' has the configured model review it and returns structured findings"),
+  maxChunkBytes: z.number().int().positive().default(12_000)
+    .describe("Model mode: largest diff chunk (whole hunks of one file) sent in a single model call"),
+  checks: z.array(z.enum(CHECK_TOOLS)).default([...CHECK_TOOLS])
+    .describe("Project checks to run on the changed files when the repository has them set up (pass [] to skip)"),
+  sarif: z.boolean().default(false)
+    .describe("Also return the check diagnostics as a SARIF 2.1.0 document"),
 });
 
+type CodeReviewArgs = z.infer<typeof CodeReviewToolSchema>;
+
+// One file's section of the diff
+interface FileDiff {
+  path: string;
+  diff: string;
+  // A = added, D = deleted, M = modified, ? = untracked
+  status: "A" | "D" | "M" | "?";
+  added: number;
+  deleted: number;
+}
+
+// Turn include/exclude globs into git pathspecs, relative to folderPath; without includes that is all of folderPath,
+// so tracked and untracked files are scoped the same way when folderPath is a subdirectory
+function toPathspecs(include: string[] = [], exclude: string[] = []): string[] {
+  return [
+    ...(include.length > 0 ? include.map((glob) => `:(glob)${glob}`) : ["."]),
+    ...exclude.map((glob) => `:(glob,exclude)${glob}`),
+  ];
+}
+
+// Resolve the commit the review starts from
+async function resolveBase(folderPath: string, baseRef?: string): Promise<{ ref: string; mergeBase: string }> {
+  const ref = baseRef ?? await findMainBranch(folderPath);
+  if (!ref) {
+    throw new ToolError("NOT_FOUND", "Could not find a main branch (origin/HEAD, main or master). Pass baseRef explicitly.");
+  }
+  if (!await resolveRef(folderPath, ref)) {
+    throw new ToolError("NOT_FOUND", `Base ref not found: ${ref}`);
+  }
+  const mergeBase = (await runGit(folderPath, ["merge-base", "HEAD", ref])).trim();
+  return { ref, mergeBase };
+}
+
+// Parse `git diff --numstat` into path -> [added, deleted] ("-" for binary files)
+function parseNumstat(numstat: string): Map<string, [number, number]> {
+  const stats = new Map<string, [number, number]>();
+  for (const line of numstat.split("\n")) {
+    const [added, deleted, ...rest] = line.split("\t");
+    if (rest.length === 0) continue;
+    stats.set(rest.join("\t"), [Number(added) || 0, Number(deleted) || 0]);
+  }
+  return stats;
+}
+
+// Collect per-file diffs of tracked and (optionally) untracked files; paths are relative to the repository root
+async function collectFileDiffs(folderPath: string, repoRoot: string, mergeBase: string, args: CodeReviewArgs): Promise<FileDiff[]> {
+  const range = args.changes === "committed" ? [mergeBase, "HEAD"]
+    : args.changes === "staged" ? ["--cached", mergeBase]
+    : [mergeBase];
+  const pathspecs = toPathspecs(args.include, args.exclude);
+  // Fixed a/ and b/ prefixes for splitDiff, whatever diff.noprefix or diff.mnemonicPrefix say
+  const patchOptions = ["--no-color", "--no-ext-diff", "--no-textconv", "--src-prefix=a/", "--dst-prefix=b/"];
+
+  const [diff, numstat] = await Promise.all([
+    runGit(folderPath, ["diff", ...patchOptions, "--no-renames", ...range, "--", ...pathspecs]),
+    runGit(folderPath, ["diff", "--numstat", "--no-renames", ...range, "--", ...pathspecs]),
+  ]);
+  const stats = parseNumstat(numstat);
+
+  const files: FileDiff[] = splitDiff(diff).map(({ path, diff }) => {
+    const [added, deleted] = stats.get(path) ?? [0, 0];
+    const status = /^new file mode/m.test(diff) ? "A" : /^deleted file mode/m.test(diff) ? "D" : "M";
+    return { path, diff, status, added, deleted };
+  });
+
+  if (args.includeUntracked && args.changes === "all") {
+    const untracked = (await runGit(folderPath, ["ls-files", "--others", "--exclude-standard", "--full-name", "--", ...pathspecs]))
+      .split("\n")
+      .filter(Boolean);
+    for (const file of untracked) {
+      // --no-index exits 1 when the files differ, which they always do against /dev/null
+      const fileDiff = await runGit(repoRoot, ["diff", ...patchOptions, "--no-index", "--", "/dev/null", file], { okExitCodes: [0, 1] });
+      const added = fileDiff.split("\n").filter((line) => line.startsWith("+") && !line.startsWith("+++")).length;
+      files.push({ path: file, diff: fileDiff, status: "?", added, deleted: 0 });
+    }
+  }
+
+  return files;
+}
+
+// Apply the per-file and total size caps, noting what was cut
+function applySizeCaps(files: FileDiff[], maxFileBytes: number, maxTotalBytes: number) {
+  let totalBytes = 0;
+  const kept: FileDiff[] = [];
+  const truncated: string[] = [];
+  const omitted: string[] = [];
+
+  for (const file of files) {
+    let section = file.diff;
+    if (Buffer.byteLength(section) > maxFileBytes) {
+      section = `${Buffer.from(section).subarray(0, maxFileBytes).toString()}\n... [diff truncated at ${maxFileBytes} bytes]\n`;
+      truncated.push(file.path);
+    }
+    if (totalBytes + Buffer.byteLength(section) > maxTotalBytes) {
+      omitted.push(file.path);
+      continue;
+    }
+    totalBytes += Buffer.byteLength(section);
+    kept.push({ ...file, diff: section });
+  }
+
+  return { kept, truncated, omitted };
+}
+
 // Run the Code Review tool
 export async function runCodeReviewTool(
-  args: z.infer<typeof CodeReviewToolSchema>,
-) {
-  const { folderPath } = args;
-
-  let diffOutput = "";
-  try {
-    diffOutput = execSync(`git -C "${folderPath}" diff`, {
-      encoding: "utf-8",
-    });
-  } catch (error) {
-    // If there's an error (e.g., no git repo, or the file doesn't exist), include it in the response.
-    diffOutput = `Error running git diff: ${error}`;
+  args: CodeReviewArgs,
+  context?: ToolContext,
+): Promise<CallToolResult> {
+  const folderPath = resolveWorkspacePath(args.folderPath, "folderPath");
+
+  if (!fs.existsSync(folderPath)) {
+    throw new ToolError("NOT_FOUND", `Folder not found: ${folderPath}`);
+  }
+
+  const { ref, mergeBase } = await resolveBase(folderPath, args.baseRef);
+  const repoRoot = await findRepoRoot(folderPath);
+  const files = await collectFileDiffs(folderPath, repoRoot, mergeBase, args);
+  const { kept, truncated, omitted } = applySizeCaps(files, args.maxFileBytes, args.maxTotalBytes);
+
+  const summaryLines = [
+    `Base: ${ref} (merge-base ${mergeBase.slice(0, 12)})`,
+    `Changes: ${args.changes}${args.includeUntracked && args.changes === "all" ? " + untracked" : ""}`,
+    ...(args.include?.length ? [`Include: ${args.include.join(", ")}`] : []),
+    ...(args.exclude?.length ? [`Exclude: ${args.exclude.join(", ")}`] : []),
+    `Files changed (${files.length}):`,
+    ...files.map((file) => `  ${file.status} ${file.path} (+${file.added} -${file.deleted})`),
+    ...(truncated.length ? [`Truncated (over ${args.maxFileBytes} bytes): ${truncated.join(", ")}`] : []),
+    ...(omitted.length ? [`Omitted (total size cap of ${args.maxTotalBytes} bytes reached): ${omitted.join(", ")}`] : []),
+  ];
+
+  const checks = await runChecks(args.checks, files, folderPath, repoRoot, context);
+  const checksText = checks.checks.length > 0 ? `\n\nChecks (diagnostics on changed lines):\n${formatChecks(checks)}` : "";
+  const sarifContent = args.sarif
+    ? [
+        {
+          type: "resource" as const,
+          resource: {
+            uri: "sarif://code-review/results.sarif",
+            mimeType: "application/sarif+json",
+            text: JSON.stringify(toSarif(checks), null, 2),
+          },
+        },
+      ]
+    : [];
+
+  if (args.mode === "model") {
+    // Deleted files have nothing left to review
+    const review = await reviewWithModel(kept.filter((file) => file.status !== "D"), args.maxChunkBytes, context);
+    const report = {
+      base: { ref, mergeBase },
+      files: files.map(({ path, status, added, deleted }) => ({ path, status, added, deleted })),
+      ...review,
+      checks,
+    };
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Summary:\n${summaryLines.join("\n")}${checksText}\n\n${formatModelReview(review)}`,
+        },
+        {
+          type: "text",
+          text: JSON.stringify(report, null, 2),
+        },
+        ...sarifContent,
+      ],
+      structuredContent: report,
+    };
   }
 
-  const instructions =
-    "Review this diff for any obvious issues. Fix them if found, then finalize the changes.";
+  const diffText = kept.map((file) => file.diff).join("");
+  const instructions = files.length === 0
+    ? "There are no changes to review against the base ref."
+    : checks.diagnostics.length > 0
+      ? "Fix the check diagnostics reported on changed lines, then review this diff for any other issues and finalize the changes."
+      : "Review this diff for any obvious issues. Fix them if found, then finalize the changes.";
 
-  const message = `Git Diff Output:\n${diffOutput}\n\nInstructions:\n${instructions}`;
+  const message = `Summary:\n${summaryLines.join("\n")}${checksText}\n\nGit Diff Output:\n${diffText}\n\nInstructions:\n${instructions}`;
 
   return {
     content: [
@@ -49,6 +249,20 @@ export async function runCodeReviewTool(
         type: "text",
         text: message,
       },
+      ...sarifContent,
     ],
   };
 }
+
+// Tool definition (registered in src/tools/index.ts)
+export const codeReviewTool = defineTool({
+  name: codeReviewToolName,
+  description: codeReviewToolDescription,
+  schema: CodeReviewToolSchema,
+  handler: async (args, context) => {
+    logger.highlight(`🔍 Running ${args.mode} code review for: ${args.folderPath}`);
+    const result = await runCodeReviewTool(args, context);
+    logger.success(`Code review completed successfully!`);
+    return result;
+  },
+});
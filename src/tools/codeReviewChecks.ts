@@ -0,0 +1,342 @@
+// src/tools/codeReviewChecks.ts
+
+/**
+ * Project checks for the code-review tool
+ *   - Detects the repository's own tsc, ESLint and Prettier setup (config file + locally installed binary)
+ *   - Runs them on the changed files and keeps diagnostics located on changed lines
+ *   - Converts the diagnostics to a SARIF 2.1.0 log for pull-request annotations
+ */
+
+import fs from "fs";
+import path from "path";
+import { TIMEOUTS } from "../config/config.js";
+import { addedLineNumbers } from "../utils/diff.js";
+import logger from "../utils/logger.js";
+import { findBinary, runCommand } from "./command.js";
+import type { ToolContext } from "./registry.js";
+
+export const CHECK_TOOLS = ["tsc", "eslint", "prettier"] as const;
+export type CheckTool = (typeof CHECK_TOOLS)[number];
+
+export interface Diagnostic {
+  tool: CheckTool;
+  // Relative to the repository root
+  file: string;
+  // Absent for file-level diagnostics (Prettier)
+  line?: number;
+  column?: number;
+  endLine?: number;
+  endColumn?: number;
+  severity: "error" | "warning" | "note";
+  rule?: string;
+  message: string;
+}
+
+export interface CheckResult {
+  tool: CheckTool;
+  // skipped = not set up in the repository, error = the tool itself failed to run
+  status: "passed" | "failed" | "skipped" | "error";
+  detail?: string;
+  // Diagnostics in changed files that are not on a changed line
+  unchangedLineDiagnostics: number;
+}
+
+export interface ChecksReport {
+  checks: CheckResult[];
+  // Only diagnostics on changed lines (or file-level diagnostics of changed files)
+  diagnostics: Diagnostic[];
+}
+
+// A changed file as seen by the checks
+export interface ChangedFile {
+  path: string;
+  diff: string;
+  // Untracked and added files count as changed on every line
+  status: "A" | "D" | "M" | "?";
+}
+
+const ESLINT_CONFIGS = [
+  "eslint.config.js", "eslint.config.mjs", "eslint.config.cjs", "eslint.config.ts", "eslint.config.mts", "eslint.config.cts",
+  ".eslintrc", ".eslintrc.js", ".eslintrc.cjs", ".eslintrc.json", ".eslintrc.yaml", ".eslintrc.yml",
+];
+const PRETTIER_CONFIGS = [
+  ".prettierrc", ".prettierrc.json", ".prettierrc.json5", ".prettierrc.yaml", ".prettierrc.yml", ".prettierrc.toml",
+  ".prettierrc.js", ".prettierrc.cjs", ".prettierrc.mjs", "prettier.config.js", "prettier.config.cjs", "prettier.config.mjs", "prettier.config.ts",
+];
+const LINTABLE_EXTENSIONS = /\.(?:[cm]?[jt]sx?)$/;
+
+// Run a project binary with the checks' timeout
+function runCheckCommand(binary: string, args: string[], folderPath: string, signal?: AbortSignal) {
+  return runCommand(binary, args, { cwd: folderPath, timeoutMs: TIMEOUTS.codeReviewChecks, signal, description: "Code review checks" });
+}
+
+function readPackageJson(folderPath: string): unknown {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(folderPath, "package.json"), "utf-8"));
+  } catch {
+    return undefined;
+  }
+}
+
+// A top-level field of the folder's package.json; undefined when the file is missing, unparsable or not an object
+function packageJsonField(folderPath: string, field: string): unknown {
+  const packageJson = readPackageJson(folderPath);
+  if (typeof packageJson !== "object" || packageJson === null || Array.isArray(packageJson)) return undefined;
+  return Object.entries(packageJson).find(([key]) => key === field)?.[1];
+}
+
+// Whether the repository configures a tool (binaries alone are not enough: they may be transitive dependencies)
+function isConfigured(tool: CheckTool, folderPath: string): boolean {
+  const has = (files: string[]) => files.some((file) => fs.existsSync(path.join(folderPath, file)));
+  switch (tool) {
+    case "tsc":
+      return has(["tsconfig.json"]);
+    case "eslint":
+      return has(ESLINT_CONFIGS) || Boolean(packageJsonField(folderPath, "eslintConfig"));
+    case "prettier":
+      return has(PRETTIER_CONFIGS) || Boolean(packageJsonField(folderPath, "prettier"));
+  }
+}
+
+// `src/a.ts(12,5): error TS2322: Type 'string' is not assignable...` (continuation lines are indented)
+function parseTscOutput(output: string): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  for (const line of output.split("\n")) {
+    const match = line.match(/^(.+?)\((\d+),(\d+)\): (error|warning|message) (TS\d+): (.*)$/);
+    if (match) {
+      diagnostics.push({
+        tool: "tsc",
+        file: match[1],
+        line: Number(match[2]),
+        column: Number(match[3]),
+        severity: match[4] === "error" ? "error" : match[4] === "warning" ? "warning" : "note",
+        rule: match[5],
+        message: match[6],
+      });
+    } else if (/^\s+\S/.test(line) && diagnostics.length > 0) {
+      diagnostics[diagnostics.length - 1].message += `\n${line.trim()}`;
+    }
+  }
+  return diagnostics;
+}
+
+// The fields read from `eslint --format json`
+interface EslintMessage {
+  ruleId: string | null;
+  // 1 = warning, 2 = error
+  severity: 1 | 2;
+  message: string;
+  line?: number;
+  column?: number;
+  endLine?: number;
+  endColumn?: number;
+}
+
+interface EslintFileResult {
+  filePath: string;
+  messages: EslintMessage[];
+}
+
+// `eslint --format json`: one entry per file with its messages; throws when the output is not that shape
+function parseEslintOutput(output: string): Diagnostic[] {
+  const results: unknown = JSON.parse(output);
+  if (!Array.isArray(results)) throw new Error("expected an array of file results");
+  return (results as EslintFileResult[]).flatMap((result) =>
+    result.messages.map((message): Diagnostic => ({
+      tool: "eslint",
+      file: result.filePath,
+      line: message.line,
+      column: message.column,
+      endLine: message.endLine,
+      endColumn: message.endColumn,
+      severity: message.severity === 2 ? "error" : "warning",
+      rule: message.ruleId ?? undefined,
+      message: message.message,
+    })),
+  );
+}
+
+// Run one tool on the files (relative to folderPath) and return its raw diagnostics, paths as the tool reported them
+async function runTool(
+  tool: CheckTool,
+  binary: string,
+  files: string[],
+  folderPath: string,
+  signal?: AbortSignal,
+): Promise<{ diagnostics: Diagnostic[]; error?: string }> {
+  switch (tool) {
+    case "tsc": {
+      // tsc cannot check single files against the project's tsconfig, so the project is checked and filtered afterwards
+      const output = await runCheckCommand(binary, ["--noEmit", "--pretty", "false", "-p", "tsconfig.json"], folderPath, signal);
+      const diagnostics = parseTscOutput(output.stdout);
+      if (output.exitCode !== 0 && diagnostics.length === 0) {
+        return { diagnostics, error: (output.stdout || output.stderr).trim().split("\n")[0] };
+      }
+      return { diagnostics };
+    }
+    case "eslint": {
+      const lintable = files.filter((file) => LINTABLE_EXTENSIONS.test(file));
+      if (lintable.length === 0) return { diagnostics: [] };
+      // Exit code 1 means lint errors were found, 2 means ESLint itself failed
+      const output = await runCheckCommand(binary, ["--format", "json", "--", ...lintable], folderPath, signal);
+      if (output.exitCode > 1) {
+        return { diagnostics: [], error: output.stderr.trim().split("\n")[0] || `exit code ${output.exitCode}` };
+      }
+      try {
+        return { diagnostics: parseEslintOutput(output.stdout) };
+      } catch (error) {
+        // A plugin or config that writes to stdout breaks the JSON
+        const reason = error instanceof Error ? error.message : String(error);
+        return { diagnostics: [], error: `unreadable ESLint output (${reason}): ${output.stdout.trim().split("\n")[0].slice(0, 200)}` };
+      }
+    }
+    case "prettier": {
+      // --list-different prints each file whose formatting differs and exits 1; 2 means Prettier failed
+      const output = await runCheckCommand(binary, ["--list-different", "--ignore-unknown", "--", ...files], folderPath, signal);
+      if (output.exitCode > 1) {
+        return { diagnostics: [], error: output.stderr.trim().split("\n")[0] || `exit code ${output.exitCode}` };
+      }
+      return {
+        diagnostics: output.stdout.split("\n").filter(Boolean).map((file) => ({
+          tool: "prettier",
+          file,
+          severity: "warning",
+          message: "File is not formatted according to the project's Prettier config",
+        })),
+      };
+    }
+  }
+}
+
+// Run the requested checks on the changed files
+export async function runChecks(
+  tools: CheckTool[],
+  changedFiles: ChangedFile[],
+  folderPath: string,
+  repoRoot: string,
+  context?: ToolContext,
+): Promise<ChecksReport> {
+  // Deleted files cannot be checked; files outside folderPath are not part of the project being checked
+  const toProjectPath = (file: ChangedFile) => path.relative(folderPath, path.join(repoRoot, file.path));
+  const existing = changedFiles
+    .filter((file) => file.status !== "D")
+    .filter((file) => !toProjectPath(file).startsWith(`..${path.sep}`));
+  const byPath = new Map(existing.map((file) => [file.path, file]));
+  const relativeFiles = existing.map(toProjectPath);
+
+  const report: ChecksReport = { checks: [], diagnostics: [] };
+  for (const tool of tools) {
+    const binary = findBinary(tool, folderPath, repoRoot);
+    if (!isConfigured(tool, folderPath) || !binary) {
+      report.checks.push({
+        tool,
+        status: "skipped",
+        detail: binary ? "no configuration found" : `not installed (node_modules/.bin/${tool})`,
+        unchangedLineDiagnostics: 0,
+      });
+      continue;
+    }
+    if (existing.length === 0) {
+      report.checks.push({ tool, status: "passed", detail: "no changed files to check", unchangedLineDiagnostics: 0 });
+      continue;
+    }
+
+    await context?.reportProgress(`Running ${tool} on ${existing.length} changed file(s)`);
+    const { diagnostics, error } = await runTool(tool, binary, relativeFiles, folderPath, context?.signal);
+    if (error) {
+      logger.warning(`${tool} failed in ${folderPath}: ${error}`);
+      report.checks.push({ tool, status: "error", detail: error, unchangedLineDiagnostics: 0 });
+      continue;
+    }
+
+    let unchangedLineDiagnostics = 0;
+    for (const diagnostic of diagnostics) {
+      // Tools report paths relative to folderPath or absolute; map them back to repository paths
+      const file = path.relative(repoRoot, path.resolve(folderPath, diagnostic.file)).split(path.sep).join("/");
+      const changed = byPath.get(file);
+      if (!changed) continue;
+      const onChangedLine = diagnostic.line === undefined
+        || changed.status === "A"
+        || changed.status === "?"
+        || addedLineNumbers(changed.diff).has(diagnostic.line);
+      if (onChangedLine) {
+        report.diagnostics.push({ ...diagnostic, file });
+      } else {
+        unchangedLineDiagnostics++;
+      }
+    }
+
+    const failed = report.diagnostics.some((diagnostic) => diagnostic.tool === tool);
+    report.checks.push({ tool, status: failed ? "failed" : "passed", unchangedLineDiagnostics });
+  }
+  return report;
+}
+
+// Readable summary of the checks
+export function formatChecks(report: ChecksReport): string {
+  const lines = report.checks.map((check) => {
+    const count = report.diagnostics.filter((diagnostic) => diagnostic.tool === check.tool).length;
+    const status = check.status === "failed" ? `failed (${count} on changed lines)` : check.status;
+    const unchanged = check.unchangedLineDiagnostics > 0
+      ? `, ${check.unchangedLineDiagnostics} more on unchanged lines`
+      : "";
+    return `  ${check.tool}: ${status}${check.detail ? ` — ${check.detail}` : ""}${unchanged}`;
+  });
+
+  for (const diagnostic of report.diagnostics) {
+    const location = diagnostic.line === undefined ? diagnostic.file : `${diagnostic.file}:${diagnostic.line}:${diagnostic.column ?? 1}`;
+    const rule = diagnostic.rule ? ` [${diagnostic.rule}]` : "";
+    lines.push(`  ${location} ${diagnostic.severity} ${diagnostic.tool}${rule}: ${diagnostic.message.split("\n")[0]}`);
+  }
+  return lines.join("\n");
+}
+
+const TOOL_URIS: Record<CheckTool, string> = {
+  tsc: "https://www.typescriptlang.org/",
+  eslint: "https://eslint.org/",
+  prettier: "https://prettier.io/",
+};
+
+// SARIF 2.1.0 log with one run per tool that ran; file URIs are relative to the repository root (%SRCROOT%)
+export function toSarif(report: ChecksReport) {
+  const ran = report.checks.filter((check) => check.status === "passed" || check.status === "failed");
+  return {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: ran.map(({ tool }) => {
+      const diagnostics = report.diagnostics.filter((diagnostic) => diagnostic.tool === tool);
+      const ruleIds = [...new Set(diagnostics.map((diagnostic) => diagnostic.rule ?? tool))];
+      return {
+        tool: {
+          driver: {
+            name: tool,
+            informationUri: TOOL_URIS[tool],
+            rules: ruleIds.map((id) => ({ id })),
+          },
+        },
+        results: diagnostics.map((diagnostic) => ({
+          ruleId: diagnostic.rule ?? tool,
+          level: diagnostic.severity,
+          message: { text: diagnostic.message },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: diagnostic.file, uriBaseId: "%SRCROOT%" },
+                ...(diagnostic.line !== undefined
+                  ? {
+                      region: {
+                        startLine: diagnostic.line,
+                        ...(diagnostic.column !== undefined ? { startColumn: diagnostic.column } : {}),
+                        ...(diagnostic.endLine !== undefined ? { endLine: diagnostic.endLine } : {}),
+                        ...(diagnostic.endColumn !== undefined ? { endColumn: diagnostic.endColumn } : {}),
+                      },
+                    }
+                  : {}),
+              },
+            },
+          ],
+        })),
+      };
+    }),
+  };
+}
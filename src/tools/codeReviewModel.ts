@@ -0,0 +1,196 @@
+// src/tools/codeReviewModel.ts
+
+/**
+ * Model-backed review for the code-review tool
+ *   - Chunks the diff per file (and per group of hunks for large files) and sends each chunk to the
+ *     configured model (ai.toolProviders.codeReview / ai.models.codeReview)
+ *   - Collects the model's JSON answers into validated, structured findings
+ */
+
+import { z } from "zod";
+import { TIMEOUTS } from "../config/config.js";
+import { getProviderForTool } from "../providers/index.js";
+import { parseHunks, numberHunkLines } from "../utils/diff.js";
+import logger from "../utils/logger.js";
+import type { ToolContext } from "./registry.js";
+
+export const FINDING_SEVERITIES = ["critical", "major", "minor", "info"] as const;
+export const FINDING_CATEGORIES = [
+  "bug",
+  "security",
+  "performance",
+  "maintainability",
+  "style",
+  "testing",
+  "documentation",
+  "other",
+] as const;
+
+// One finding as returned by the model; unknown severities/categories are coerced rather than dropped
+const ModelFindingSchema = z.object({
+  file: z.string().min(1).optional(),
+  startLine: z.coerce.number().int().nonnegative(),
+  endLine: z.coerce.number().int().nonnegative().optional(),
+  severity: z.enum(FINDING_SEVERITIES).catch("minor"),
+  category: z.enum(FINDING_CATEGORIES).catch("other"),
+  message: z.string().min(1),
+  suggestedFix: z.string().optional(),
+});
+
+export interface Finding {
+  file: string;
+  startLine: number;
+  endLine: number;
+  severity: (typeof FINDING_SEVERITIES)[number];
+  category: (typeof FINDING_CATEGORIES)[number];
+  message: string;
+  suggestedFix?: string;
+}
+
+export interface ModelReview {
+  provider: string;
+  model: string;
+  findings: Finding[];
+  chunks: number;
+  // Chunks whose answer could not be parsed as findings
+  failedChunks: { file: string; error: string }[];
+}
+
+// The part of the diff sent in one model call
+interface ReviewChunk {
+  file: string;
+  text: string;
+}
+
+const systemPrompt = `You are an expert code reviewer. You are given part of a git diff. Lines starting with "+" were added, "-" were removed. The number in front of each line is its line number in the new version of the file.
+
+Report only real problems in the added or changed code: bugs, security issues, performance problems, maintainability concerns, missing tests or documentation. Do not comment on code that was not changed, and do not praise.
+
+Respond with JSON only, in this exact shape:
+{"findings": [{"file": "path/of/file", "startLine": 1, "endLine": 1, "severity": "critical|major|minor|info", "category": "${FINDING_CATEGORIES.join("|")}", "message": "what is wrong and why", "suggestedFix": "code or a short description of the fix"}]}
+
+Use the new-file line numbers shown in the diff. Return {"findings": []} if there is nothing to report.`;
+
+// Split each file's diff into chunks of whole hunks no larger than `maxChunkBytes` (a single larger hunk is sent alone)
+export function chunkFileDiffs(files: { path: string; diff: string }[], maxChunkBytes: number): ReviewChunk[] {
+  const chunks: ReviewChunk[] = [];
+
+  for (const file of files) {
+    const header = `File: ${file.path}\n`;
+    let text = header;
+    for (const hunk of parseHunks(file.diff)) {
+      const rendered = `${numberHunkLines(hunk)}\n`;
+      if (text !== header && Buffer.byteLength(text + rendered) > maxChunkBytes) {
+        chunks.push({ file: file.path, text });
+        text = header;
+      }
+      text += rendered;
+    }
+    if (text !== header) {
+      chunks.push({ file: file.path, text });
+    }
+  }
+  return chunks;
+}
+
+// Pull the findings array out of a model answer (bare JSON, fenced JSON, or JSON surrounded by prose)
+function parseFindings(answer: string, chunkFile: string): Finding[] {
+  const fenced = answer.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const body = fenced ? fenced[1] : answer;
+  const start = body.search(/[[{]/);
+  const end = Math.max(body.lastIndexOf("}"), body.lastIndexOf("]"));
+  if (start === -1 || end < start) {
+    throw new Error("No JSON found in the model response");
+  }
+
+  const json = JSON.parse(body.slice(start, end + 1));
+  const rawFindings: unknown[] = Array.isArray(json) ? json : json?.findings;
+  if (!Array.isArray(rawFindings)) {
+    throw new Error(`Expected a "findings" array in the model response`);
+  }
+
+  const findings: Finding[] = [];
+  for (const raw of rawFindings) {
+    const result = ModelFindingSchema.safeParse(raw);
+    if (!result.success) {
+      logger.warning(`Skipping malformed finding for ${chunkFile}: ${JSON.stringify(raw)}`);
+      continue;
+    }
+    const { file, startLine, endLine, ...rest } = result.data;
+    findings.push({
+      file: file ?? chunkFile,
+      startLine,
+      endLine: Math.max(endLine ?? startLine, startLine),
+      ...rest,
+    });
+  }
+  return findings;
+}
+
+// Review every chunk with the configured model, one call at a time
+export async function reviewWithModel(
+  files: { path: string; diff: string }[],
+  maxChunkBytes: number,
+  context?: ToolContext,
+): Promise<ModelReview> {
+  const { provider, model } = getProviderForTool("codeReview");
+  const chunks = chunkFileDiffs(files, maxChunkBytes);
+  const review: ModelReview = { provider: provider.name, model, findings: [], chunks: chunks.length, failedChunks: [] };
+
+  for (const [index, chunk] of chunks.entries()) {
+    await context?.reportProgress(`Reviewing ${chunk.file} with ${provider.name} model: ${model}`, chunks.length);
+    // Provider failures, timeouts and cancellation propagate and fail the whole review
+    const response = await provider.complete({
+      model,
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: `Review chunk ${index + 1} of ${chunks.length}.\n\n${chunk.text}` },
+      ],
+      timeoutMs: TIMEOUTS.codeReview,
+      signal: context?.signal,
+    });
+
+    try {
+      review.findings.push(...parseFindings(response.text, chunk.file));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warning(`Could not parse review of ${chunk.file}: ${message}`);
+      review.failedChunks.push({ file: chunk.file, error: message });
+    }
+  }
+
+  const severityOrder = (finding: Finding) => FINDING_SEVERITIES.indexOf(finding.severity);
+  review.findings.sort((a, b) =>
+    severityOrder(a) - severityOrder(b) || a.file.localeCompare(b.file) || a.startLine - b.startLine);
+  return review;
+}
+
+// Readable summary of a model review, grouped by file
+export function formatModelReview(review: ModelReview): string {
+  const counts = FINDING_SEVERITIES
+    .map((severity) => [severity, review.findings.filter((finding) => finding.severity === severity).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([severity, count]) => `${count} ${severity}`);
+
+  const lines = [
+    `Model review (${review.provider}: ${review.model}): ${review.findings.length} finding(s) in ${review.chunks} chunk(s)${counts.length ? ` — ${counts.join(", ")}` : ""}`,
+  ];
+
+  const files = [...new Set(review.findings.map((finding) => finding.file))];
+  for (const file of files) {
+    lines.push("", file);
+    for (const finding of review.findings.filter((f) => f.file === file)) {
+      const range = finding.endLine > finding.startLine ? `L${finding.startLine}-${finding.endLine}` : `L${finding.startLine}`;
+      lines.push(`  [${finding.severity}] ${range} (${finding.category}): ${finding.message}`);
+      if (finding.suggestedFix) {
+        lines.push(...finding.suggestedFix.split("\n").map((line, i) => `    ${i === 0 ? "Fix: " : "     "}${line}`));
+      }
+    }
+  }
+
+  if (review.failedChunks.length > 0) {
+    lines.push("", `Unparseable model answers (${review.failedChunks.length}):`);
+    lines.push(...review.failedChunks.map((chunk) => `  ${chunk.file}: ${chunk.error}`));
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,68 @@
+// src/tools/command.ts
+
+/**
+ * Running project binaries for tools
+ *   - Binaries are looked up in the project's node_modules/.bin, inside the workspace roots, and run with execFile (no shell)
+ *   - Non-zero exits are results; cancellation and timeouts become ToolErrors
+ */
+
+import { execFile } from "child_process";
+import fs from "fs";
+import path from "path";
+import { promisify } from "util";
+import { isInsideWorkspace } from "../utils/workspace.js";
+import { ToolError } from "./errors.js";
+
+const execFilePromise = promisify(execFile);
+
+export interface CommandOutput {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+}
+
+export interface CommandOptions {
+  cwd: string;
+  timeoutMs: number;
+  signal?: AbortSignal;
+  // Extra environment variables on top of the server's own
+  env?: Record<string, string>;
+  // What is being run, for error messages ("Code review checks")
+  description: string;
+}
+
+// Run a project binary without a shell; non-zero exits are returned, not thrown
+export async function runCommand(binary: string, args: string[], options: CommandOptions): Promise<CommandOutput> {
+  const { cwd, timeoutMs, signal, env, description } = options;
+  try {
+    const { stdout, stderr } = await execFilePromise(binary, args, {
+      cwd,
+      encoding: "utf-8",
+      maxBuffer: 64 * 1024 * 1024,
+      timeout: timeoutMs,
+      signal,
+      env: env ? { ...process.env, ...env } : undefined,
+    });
+    return { stdout, stderr, exitCode: 0 };
+  } catch (error: any) {
+    if (signal?.aborted) {
+      throw new ToolError("CANCELLED", `${description}: cancelled`);
+    }
+    if (error.killed) {
+      throw new ToolError("TIMEOUT", `${path.basename(binary)} did not finish within ${timeoutMs}ms`);
+    }
+    if (typeof error.code !== "number") throw error;
+    return { stdout: error.stdout ?? "", stderr: error.stderr ?? "", exitCode: error.code };
+  }
+}
+
+// Find a locally installed binary in node_modules/.bin, from `fromDir` up to `stopDir` (or the filesystem root);
+// directories outside the workspace roots are never searched, so nothing installed there is run
+export function findBinary(name: string, fromDir: string, stopDir?: string): string | undefined {
+  for (let dir = fromDir; ; dir = path.dirname(dir)) {
+    if (!isInsideWorkspace(dir)) return undefined;
+    const candidate = path.join(dir, "node_modules", ".bin", name);
+    if (fs.existsSync(candidate)) return candidate;
+    if (dir === stopDir || path.dirname(dir) === dir) return undefined;
+  }
+}
@@ -0,0 +1,87 @@
+// src/tools/errors.ts
+
+/**
+ * Tool error model
+ *   - Tools throw ToolError (or let upstream errors propagate); the server turns every failure into
+ *     an `isError: true` result carrying a machine-readable code and a human-readable message
+ */
+
+import { z } from "zod";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { ModelCancelledError, ModelTimeoutError } from "../providers/index.js";
+import { GitError } from "../utils/git.js";
+import { WorkspacePathError } from "../utils/workspace.js";
+import { OpenApiError } from "../utils/openapi.js";
+
+export type ToolErrorCode =
+  | "INVALID_ARGUMENTS"   // arguments failed schema validation or are inconsistent
+  | "NOT_FOUND"           // a referenced file, directory or resource does not exist
+  | "PATH_NOT_ALLOWED"    // a path argument resolves outside the configured workspace roots
+  | "UPSTREAM_ERROR"      // a model provider, database or other external service failed
+  | "TIMEOUT"             // the call exceeded its configured timeout
+  | "CANCELLED"           // the client cancelled the request
+  | "COMMAND_FAILED"      // a local command (e.g. git) exited with an error
+  | "FILE_WRITE_FAILED"   // an output file could not be written
+  | "CONFLICT"            // an output file already exists and the call asked not to replace it
+  | "ACTION_FAILED"       // a scripted browser action failed (element not found, assertion false)
+  | "INTERNAL_ERROR";     // anything else
+
+export class ToolError extends Error {
+  constructor(
+    public readonly code: ToolErrorCode,
+    message: string,
+    public readonly details?: unknown,
+  ) {
+    super(message);
+    this.name = "ToolError";
+  }
+}
+
+// Classify any thrown value as a ToolError
+export function toToolError(error: unknown): ToolError {
+  if (error instanceof ToolError) return error;
+  if (error instanceof z.ZodError) {
+    return new ToolError("INVALID_ARGUMENTS", formatZodError(error), error.issues);
+  }
+  if (error instanceof ModelTimeoutError) return new ToolError("TIMEOUT", error.message);
+  if (error instanceof ModelCancelledError) return new ToolError("CANCELLED", error.message);
+  if (error instanceof OpenApiError) return new ToolError("INVALID_ARGUMENTS", `Invalid API spec: ${error.message}`);
+  if (error instanceof WorkspacePathError) return new ToolError("PATH_NOT_ALLOWED", error.message, { path: error.path });
+  if (error instanceof GitError) return new ToolError("COMMAND_FAILED", error.message, { exitCode: error.exitCode });
+
+  // Errors from the OpenAI/Anthropic SDKs carry an HTTP status; connection failures are named *Connection*
+  const { status, name, message } = typeof error === "object" && error !== null
+    ? (error as { status?: unknown; name?: unknown; message?: unknown })
+    : {};
+  const text = typeof message === "string" ? message : String(error);
+  if (typeof status === "number" || (typeof name === "string" && name.includes("Connection"))) {
+    return new ToolError("UPSTREAM_ERROR", text, { status: typeof status === "number" ? status : undefined });
+  }
+  return new ToolError("INTERNAL_ERROR", text);
+}
+
+export function formatZodError(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+    .join("; ");
+}
+
+// Build the isError result returned to the client
+export function toolErrorResult(error: ToolError): CallToolResult {
+  return {
+    isError: true,
+    content: [
+      {
+        type: "text",
+        text: `[${error.code}] ${error.message}`,
+      },
+    ],
+    structuredContent: {
+      error: {
+        code: error.code,
+        message: error.message,
+        ...(error.details !== undefined ? { details: error.details } : {}),
+      },
+    },
+  };
+}
@@ -0,0 +1,32 @@
+// src/tools/index.ts
+
+/**
+ * All tools exposed by the MCP server
+ *   - To add a tool, export a ToolDefinition from its module and list it here
+ */
+
+import type { ToolDefinition } from "./registry.js";
+import { config } from "../config/config.js";
+import logger from "../utils/logger.js";
+import { screenshotTool } from "./screenshot.js";
+import { architectTool } from "./architect.js";
+import { codeReviewTool } from "./codeReview.js";
+import { apiTestGeneratorTool } from "./apiTestGenerator.js";
+import { postgresqlTool, postgresqlEnabled } from "./postgresql.js";
+
+const allTools: ToolDefinition[] = [
+  screenshotTool,
+  architectTool,
+  codeReviewTool,
+  apiTestGeneratorTool,
+  ...(postgresqlEnabled ? [postgresqlTool] : []),
+];
+
+// Flag disabled tool names that don't match any tool (most likely a typo in the config)
+for (const name of config.tools.disabled) {
+  if (!allTools.some((tool) => tool.name === name)) {
+    logger.warning(`Config disables unknown tool "${name}"`);
+  }
+}
+
+export const tools = allTools.filter((tool) => !config.tools.disabled.includes(tool.name));
@@ -0,0 +1,246 @@
+// src/tools/pageDiagnostics.ts
+
+/**
+ * Page diagnostics for the screenshot tool
+ *   - Listens to the page from before the first navigation until the capture: console messages,
+ *     uncaught page errors, failed requests and 4xx/5xx responses
+ *   - After the capture reads the navigation and paint timings of the last page load and runs an
+ *     axe-core accessibility audit on the page as captured
+ *   - Lists are capped so a noisy page cannot flood the result; the totals are still reported
+ */
+
+import axe from "axe-core";
+import { z } from "zod";
+import type { ConsoleMessage, HTTPRequest, HTTPResponse, Page } from "puppeteer";
+
+// axe-core as injected into the page by runAccessibilityAudit
+declare global {
+  interface Window {
+    axe: typeof axe;
+  }
+}
+
+export const DIAGNOSTICS = ["console", "errors", "network", "performance", "accessibility"] as const;
+export type DiagnosticKind = (typeof DIAGNOSTICS)[number];
+
+export const DiagnosticsSchema = z.array(z.enum(DIAGNOSTICS));
+
+// Entries kept per list
+const MAX_ENTRIES = 50;
+// Nodes named per accessibility violation
+const MAX_TARGETS = 5;
+
+interface CappedList<T> {
+  total: number;
+  entries: T[];
+}
+
+export interface ConsoleEntry {
+  type: string;
+  text: string;
+  location?: string;
+}
+
+export interface RequestEntry {
+  method: string;
+  url: string;
+  resourceType: string;
+  // HTTP status for 4xx/5xx responses; absent when the request failed outright
+  status?: number;
+  // Status text, or the network error (net::ERR_CONNECTION_REFUSED, ...)
+  error: string;
+}
+
+export interface PerformanceTimings {
+  // Milliseconds from the start of the navigation
+  timeToFirstByte: number;
+  firstContentfulPaint?: number;
+  domContentLoaded: number;
+  load: number;
+  requests: number;
+  transferBytes: number;
+}
+
+export interface AccessibilityViolation {
+  id: string;
+  impact: string;
+  help: string;
+  helpUrl: string;
+  nodes: number;
+  targets: string[];
+}
+
+export interface PageDiagnostics {
+  console?: CappedList<ConsoleEntry>;
+  errors?: CappedList<string>;
+  network?: CappedList<RequestEntry>;
+  performance?: PerformanceTimings;
+  accessibility?: { violations: AccessibilityViolation[]; passes: number; incomplete: number };
+  // Diagnostics that could not be collected, e.g. an audit blocked by the page
+  failures?: Partial<Record<DiagnosticKind, string>>;
+}
+
+export interface DiagnosticsCollector {
+  // Stop listening and read the timings and audit from the page in its current state
+  finish(): Promise<PageDiagnostics>;
+}
+
+function cappedList<T>(): CappedList<T> {
+  return { total: 0, entries: [] };
+}
+
+function push<T>(list: CappedList<T>, entry: T): void {
+  list.total++;
+  if (list.entries.length < MAX_ENTRIES) list.entries.push(entry);
+}
+
+async function readTimings(page: Page): Promise<PerformanceTimings> {
+  return page.evaluate(() => {
+    const [navigation] = performance.getEntriesByType("navigation") as PerformanceNavigationTiming[];
+    const resources = performance.getEntriesByType("resource") as PerformanceResourceTiming[];
+    const paint = performance.getEntriesByName("first-contentful-paint")[0];
+    return {
+      timeToFirstByte: Math.round(navigation?.responseStart ?? 0),
+      firstContentfulPaint: paint ? Math.round(paint.startTime) : undefined,
+      domContentLoaded: Math.round(navigation?.domContentLoadedEventEnd ?? 0),
+      load: Math.round(navigation?.loadEventEnd ?? 0),
+      requests: resources.length + 1,
+      transferBytes: resources.reduce((sum, entry) => sum + entry.transferSize, navigation?.transferSize ?? 0),
+    };
+  });
+}
+
+async function runAccessibilityAudit(page: Page): Promise<NonNullable<PageDiagnostics["accessibility"]>> {
+  // The page's CSP is bypassed by the screenshot tool, so the inline script is allowed
+  await page.addScriptTag({ content: axe.source });
+  const results = await page.evaluate(() => window.axe.run(document, { resultTypes: ["violations"] }));
+  return {
+    violations: results.violations.map((violation) => ({
+      id: violation.id,
+      impact: violation.impact ?? "unknown",
+      help: violation.help,
+      helpUrl: violation.helpUrl,
+      nodes: violation.nodes.length,
+      targets: violation.nodes.slice(0, MAX_TARGETS).map((node) => node.target.join(" ")),
+    })),
+    passes: results.passes.length,
+    incomplete: results.incomplete.length,
+  };
+}
+
+// Start listening; call before the first navigation so nothing from the page load is missed
+export function collectDiagnostics(page: Page, kinds: DiagnosticKind[]): DiagnosticsCollector {
+  const wanted = new Set(kinds);
+  const diagnostics: PageDiagnostics = {};
+  const detach: Array<() => void> = [];
+
+  if (wanted.has("console")) {
+    const list = (diagnostics.console = cappedList<ConsoleEntry>());
+    const onConsole = (message: ConsoleMessage) => {
+      const { url, lineNumber } = message.location();
+      push(list, { type: message.type(), text: message.text(), location: url ? `${url}:${(lineNumber ?? 0) + 1}` : undefined });
+    };
+    page.on("console", onConsole);
+    detach.push(() => page.off("console", onConsole));
+  }
+  if (wanted.has("errors")) {
+    const list = (diagnostics.errors = cappedList<string>());
+    const onError = (error: unknown) => push(list, error instanceof Error ? error.stack ?? error.message : String(error));
+    page.on("pageerror", onError);
+    detach.push(() => page.off("pageerror", onError));
+  }
+  if (wanted.has("network")) {
+    const list = (diagnostics.network = cappedList<RequestEntry>());
+    const onRequestFailed = (request: HTTPRequest) => push(list, {
+      method: request.method(),
+      url: request.url(),
+      resourceType: request.resourceType(),
+      error: request.failure()?.errorText ?? "failed",
+    });
+    const onResponse = (response: HTTPResponse) => {
+      if (response.status() < 400) return;
+      const request = response.request();
+      push(list, {
+        method: request.method(),
+        url: response.url(),
+        resourceType: request.resourceType(),
+        status: response.status(),
+        error: response.statusText(),
+      });
+    };
+    page.on("requestfailed", onRequestFailed);
+    page.on("response", onResponse);
+    detach.push(() => page.off("requestfailed", onRequestFailed), () => page.off("response", onResponse));
+  }
+
+  return {
+    async finish() {
+      detach.forEach((off) => off());
+
+      const failures: NonNullable<PageDiagnostics["failures"]> = {};
+      if (wanted.has("performance")) {
+        try {
+          diagnostics.performance = await readTimings(page);
+        } catch (error) {
+          failures.performance = error instanceof Error ? error.message : String(error);
+        }
+      }
+      if (wanted.has("accessibility")) {
+        try {
+          diagnostics.accessibility = await runAccessibilityAudit(page);
+        } catch (error) {
+          failures.accessibility = error instanceof Error ? error.message : String(error);
+        }
+      }
+      return Object.keys(failures).length > 0 ? { ...diagnostics, failures } : diagnostics;
+    },
+  };
+}
+
+function heading(title: string, list: CappedList<unknown>): string {
+  const shown = list.entries.length < list.total ? `, first ${list.entries.length} shown` : "";
+  return `${title} (${list.total}${shown}):`;
+}
+
+// Plain-text report for the tool result
+export function formatDiagnostics(diagnostics: PageDiagnostics): string {
+  const lines: string[] = ["Page diagnostics:"];
+  if (diagnostics.console) {
+    lines.push(heading("Console messages", diagnostics.console));
+    for (const entry of diagnostics.console.entries) {
+      lines.push(`  [${entry.type}] ${entry.text}${entry.location ? ` (${entry.location})` : ""}`);
+    }
+  }
+  if (diagnostics.errors) {
+    lines.push(heading("Uncaught page errors", diagnostics.errors));
+    for (const error of diagnostics.errors.entries) {
+      lines.push(...error.split("\n").map((line) => `  ${line}`));
+    }
+  }
+  if (diagnostics.network) {
+    lines.push(heading("Failed requests", diagnostics.network));
+    for (const entry of diagnostics.network.entries) {
+      lines.push(`  ${entry.method} ${entry.url} (${entry.resourceType}): ${entry.status ? `${entry.status} ` : ""}${entry.error}`);
+    }
+  }
+  if (diagnostics.performance) {
+    const timings = diagnostics.performance;
+    lines.push(
+      `Performance: time to first byte ${timings.timeToFirstByte}ms`
+        + `${timings.firstContentfulPaint !== undefined ? `, first contentful paint ${timings.firstContentfulPaint}ms` : ""}`
+        + `, DOMContentLoaded ${timings.domContentLoaded}ms, load ${timings.load}ms`
+        + `, ${timings.requests} request(s), ${Math.round(timings.transferBytes / 1024)}KB transferred`,
+    );
+  }
+  if (diagnostics.accessibility) {
+    const { violations, passes, incomplete } = diagnostics.accessibility;
+    lines.push(`Accessibility (axe-core): ${violations.length} violation(s), ${passes} rule(s) passed, ${incomplete} need review`);
+    for (const violation of violations) {
+      lines.push(`  [${violation.impact}] ${violation.id}: ${violation.help} (${violation.nodes} node(s): ${violation.targets.join(", ")}${violation.nodes > violation.targets.length ? ", ..." : ""}) ${violation.helpUrl}`);
+    }
+  }
+  for (const [kind, message] of Object.entries(diagnostics.failures ?? {})) {
+    lines.push(`Could not collect ${kind}: ${message}`);
+  }
+  return lines.join("\n");
+}
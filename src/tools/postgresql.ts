@@ -1,52 +1,67 @@
-#!/usr/bin/env node
-
-import { Server } from "@modelcontextprotocol/sdk/server/index.js";
-import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import {
-  CallToolRequestSchema,
-  ListResourcesRequestSchema,
-  ListToolsRequestSchema,
-  ReadResourceRequestSchema,
-} from "@modelcontextprotocol/sdk/types.js";
-import pg from "pg";
+// src/tools/postgresql.ts
 
-const server = new Server(
-  {
-    name: "example-servers/postgres",
-    version: "0.1.0",
-  },
-  {
-    capabilities: {
-      resources: {},
-      tools: {},
-    },
-  },
-);
+/**
+ * PostgreSQL tool
+ *   - Runs read-only SQL queries against the database configured by DATABASE_URL
+ *   - Also exposes each public table's column schema as an MCP resource
+ */
 
-const args = process.argv.slice(2);
-if (args.length === 0) {
-  console.error("Please provide a database URL as a command-line argument");
-  process.exit(1);
-}
+import { z } from "zod";
+import pg from "pg";
+import type {
+  CallToolResult,
+  ListResourcesResult,
+  ReadResourceResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import { config, DATABASE_URL } from "../config/config.js";
+import logger from "../utils/logger.js";
+import { defineTool } from "./registry.js";
+import { ToolError } from "./errors.js";
+
+
+// Define the tool name, description, and schema
+export const postgresqlToolName = "query";
+export const postgresqlToolDescription =
+  "Run a read-only SQL query against the configured PostgreSQL database.";
+export const PostgreSQLToolSchema = z.object({
+  sql: z.string().min(1, "A SQL query is required.").describe("SQL to run inside a read-only transaction"),
+});
 
-const databaseUrl = args[0];
+// The tool and its resources are only exposed when a database is configured (and the tool isn't disabled)
+export const postgresqlEnabled = Boolean(DATABASE_URL) && !config.tools.disabled.includes(postgresqlToolName);
 
-const resourceBaseUrl = new URL(databaseUrl);
-resourceBaseUrl.protocol = "postgres:";
-resourceBaseUrl.password = "";
+const SCHEMA_PATH = "schema";
 
-const pool = new pg.Pool({
-  connectionString: databaseUrl,
-});
+// Created on first use so the server can start without a reachable database
+let pool: pg.Pool | undefined;
+function getPool(): pg.Pool {
+  if (!DATABASE_URL) {
+    throw new ToolError("UPSTREAM_ERROR", "No database configured. Set DATABASE_URL to enable the PostgreSQL tool.");
+  }
+  if (!pool) {
+    // Every session defaults to read-only, a second guard behind the per-query READ ONLY transaction
+    pool = new pg.Pool({ connectionString: DATABASE_URL, options: "-c default_transaction_read_only=on" });
+    pool.on("error", (error) => logger.error(`PostgreSQL pool error: ${error.message}`));
+  }
+  return pool;
+}
 
-const SCHEMA_PATH = "schema";
+// Base URI for table schema resources (password stripped)
+function getResourceBaseUrl(): URL {
+  const resourceBaseUrl = new URL(DATABASE_URL);
+  resourceBaseUrl.protocol = "postgres:";
+  resourceBaseUrl.password = "";
+  return resourceBaseUrl;
+}
 
-server.setRequestHandler(ListResourcesRequestSchema, async () => {
-  const client = await pool.connect();
+// List one schema resource per table in the public schema
+export async function listPostgreSQLResources(): Promise<ListResourcesResult> {
+  const client = await getPool().connect();
   try {
     const result = await client.query(
       "SELECT table_name FROM information_schema.tables WHERE table_schema = 'public'",
     );
+    const resourceBaseUrl = getResourceBaseUrl();
     return {
       resources: result.rows.map((row: any) => ({
         uri: new URL(`${row.table_name}/${SCHEMA_PATH}`, resourceBaseUrl).href,
@@ -57,10 +72,11 @@ server.setRequestHandler(ListResourcesRequestSchema, async () => {
   } finally {
     client.release();
   }
-});
+}
 
-server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-  const resourceUrl = new URL(request.params.uri);
+// Read the column schema of one table
+export async function readPostgreSQLResource(uri: string): Promise<ReadResourceResult> {
+  const resourceUrl = new URL(uri);
 
   const pathComponents = resourceUrl.pathname.split("/");
   const schema = pathComponents.pop();
@@ -70,7 +86,7 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
     throw new Error("Invalid resource URI");
   }
 
-  const client = await pool.connect();
+  const client = await getPool().connect();
   try {
     const result = await client.query(
       "SELECT column_name, data_type FROM information_schema.columns WHERE table_name = $1",
@@ -80,7 +96,7 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
     return {
       contents: [
         {
-          uri: request.params.uri,
+          uri,
           mimeType: "application/json",
           text: JSON.stringify(result.rows, null, 2),
         },
@@ -89,55 +105,54 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
   } finally {
     client.release();
   }
-});
-
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: [
-      {
-        name: "query",
-        description: "Run a read-only SQL query",
-        inputSchema: {
-          type: "object",
-          properties: {
-            sql: { type: "string" },
-          },
-        },
-      },
-    ],
-  };
-});
+}
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  if (request.params.name === "query") {
-    const sql = request.params.arguments?.sql as string;
+// Run the PostgreSQL tool
+export async function runPostgreSQLTool(
+  args: z.infer<typeof PostgreSQLToolSchema>,
+): Promise<CallToolResult> {
+  let client: pg.PoolClient;
+  try {
+    client = await getPool().connect();
+  } catch (error: any) {
+    throw new ToolError("UPSTREAM_ERROR", `Could not connect to the database: ${error.message}`);
+  }
 
-    const client = await pool.connect();
+  try {
+    await client.query("BEGIN TRANSACTION READ ONLY");
+    // The extended protocol runs exactly one statement, so `COMMIT; DROP TABLE ...` cannot leave the transaction
+    // (@types/pg does not declare queryMode)
+    const query: pg.QueryConfig & { queryMode: "extended" } = { text: args.sql, queryMode: "extended" };
+    const result = await client.query(query);
+    return {
+      content: [{ type: "text", text: JSON.stringify(result.rows, null, 2) }],
+      isError: false,
+    };
+  } catch (error: any) {
+    // pg errors carry the SQLSTATE in `code` (e.g. 42P01 undefined_table, 25006 read_only_sql_transaction)
+    throw new ToolError("UPSTREAM_ERROR", `Query failed: ${error.message}`, { sqlState: error.code });
+  } finally {
+    let rollbackError: Error | undefined;
     try {
-      await client.query("BEGIN TRANSACTION READ ONLY");
-      const result = await client.query(sql);
-      return {
-        content: [{ type: "text", text: JSON.stringify(result.rows, null, 2) }],
-        isError: false,
-      };
-    } catch (error: any) {
-      throw error;
-    } finally {
-      client
-        .query("ROLLBACK")
-        .catch((error: any) =>
-          console.warn("Could not roll back transaction:", error),
-        );
-
-      client.release();
+      await client.query("ROLLBACK");
+    } catch (error) {
+      logger.warning(`Could not roll back transaction: ${error}`);
+      rollbackError = error instanceof Error ? error : new Error(String(error));
     }
+    // A client whose rollback failed may still be inside the transaction: destroy it rather than reuse it
+    client.release(rollbackError);
   }
-  throw new Error(`Unknown tool: ${request.params.name}`);
-});
-
-async function runServer() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
 }
 
-runServer().catch(console.error);
\ No newline at end of file
+// Tool definition (registered in src/tools/index.ts)
+export const postgresqlTool = defineTool({
+  name: postgresqlToolName,
+  description: postgresqlToolDescription,
+  schema: PostgreSQLToolSchema,
+  handler: async (args) => {
+    logger.highlight(`🐘 Running SQL query: ${args.sql.substring(0, 50)}...`);
+    const result = await runPostgreSQLTool(args);
+    logger.success(`SQL query completed successfully!`);
+    return result;
+  },
+});
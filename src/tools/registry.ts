@@ -0,0 +1,96 @@
+// src/tools/registry.ts
+
+/**
+ * Tool registry
+ *   - Each tool module exports one ToolDefinition (name, description, zod schema, handler)
+ *   - The server derives both the ListTools JSON Schema and the CallTool dispatch from it,
+ *     so the advertised schema can never drift from the schema used for validation
+ */
+
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import type { CallToolResult, ProgressToken, ServerNotification, Tool } from "@modelcontextprotocol/sdk/types.js";
+import logger from "../utils/logger.js";
+
+// Per-call context handed to every tool handler
+export interface ToolContext {
+  // Aborted when the client cancels the request
+  signal: AbortSignal;
+  // Report a stage of a long-running call (sent as notifications/progress when the client asked for it)
+  reportProgress: (message: string, total?: number) => Promise<void>;
+}
+
+// The parts of the SDK's request handler `extra` a tool context is built from
+interface RequestExtra {
+  signal: AbortSignal;
+  _meta?: { progressToken?: ProgressToken };
+  sendNotification: (notification: ServerNotification) => Promise<void>;
+}
+
+// Build the context for one tool call; progress is a no-op unless the request carried a progress token
+export function createToolContext(extra: RequestExtra): ToolContext {
+  const progressToken = extra._meta?.progressToken;
+  let progress = 0;
+
+  return {
+    signal: extra.signal,
+    reportProgress: async (message, total) => {
+      if (progressToken === undefined || extra.signal.aborted) return;
+      progress++;
+      try {
+        await extra.sendNotification({
+          method: "notifications/progress",
+          params: { progressToken, progress, total, message },
+        });
+      } catch (error) {
+        // Progress is best-effort and must never fail the tool call
+        logger.warning(`Failed to send progress notification: ${error}`);
+      }
+    },
+  };
+}
+
+// A single tool, as exported by each module in src/tools
+export interface ToolDefinition<Schema extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  schema: Schema;
+  // Declared as a method so definitions with narrower schemas fit in a ToolDefinition[]
+  handler(args: z.infer<Schema>, context: ToolContext): Promise<CallToolResult>;
+}
+
+// Identity helper so each tool module gets its handler args inferred from its schema
+export function defineTool<Schema extends z.ZodTypeAny>(
+  definition: ToolDefinition<Schema>,
+): ToolDefinition<Schema> {
+  return definition;
+}
+
+// Convert a tool definition into the shape advertised by ListTools
+export function toToolListing(tool: ToolDefinition): Tool {
+  const { $schema, ...inputSchema } = zodToJsonSchema(tool.schema, {
+    $refStrategy: "none",
+  }) as Record<string, unknown>;
+
+  return {
+    name: tool.name,
+    description: tool.description,
+    inputSchema: inputSchema as Tool["inputSchema"],
+  };
+}
+
+// Build a name -> definition lookup, refusing duplicate tool names
+export function createToolRegistry(tools: ToolDefinition[]) {
+  const registry = new Map<string, ToolDefinition>();
+  for (const tool of tools) {
+    if (registry.has(tool.name)) {
+      throw new Error(`Duplicate tool name: ${tool.name}`);
+    }
+    registry.set(tool.name, tool);
+  }
+
+  return {
+    list: (): Tool[] => Array.from(registry.values()).map(toToolListing),
+    get: (name: string): ToolDefinition | undefined => registry.get(name),
+  };
+}
@@ -2,23 +2,41 @@
 
 /**
  * Screenshot tool
- *   - Takes in either "url" (a full URL) or "relativePath" to open on localhost:{PORT}
- *   - Returns a base64-encoded PNG screenshot
+ *   - Takes in either "url" (a full http or https URL) or "relativePath" to open on localhost:{PORT}
+ *   - Viewport or device preset, color scheme, wait conditions and an element to clip to are optional
+ *   - Scripted actions (log in, open a modal, ...) run after the page loads, before the capture
+ *   - Visual regression: the capture can be saved as a named baseline or compared with one
+ *   - Optional page diagnostics (console, page errors, failed requests, timings, accessibility) from the same visit
+ *   - Returns a base64-encoded PNG, JPEG or WebP screenshot, saved to disk unless no path is given
  */
 
-import puppeteer from "puppeteer";
 import { z } from "zod";
-import path from "path";
 import fs from "fs";
-import { PORT } from "../config/config.js";
+import path from "path";
+import type { Page } from "puppeteer";
+import { PORT, TIMEOUTS } from "../config/config.js";
 import chalk from 'chalk';
-import { exec } from 'child_process';
+import { execFile } from 'child_process';
 import { promisify } from 'util';
-//import OpenAI from "openai";
-//import { OPENAI_API_KEY } from "../env/keys.js"; // not needed for this tool
-//import { MODEL_FOR_SCREENSHOT } from "../env/ai.js"; // Screenshot Tool does not use an external AI model
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import logger from "../utils/logger.js";
+import { defineTool, type ToolContext } from "./registry.js";
+import { ToolError } from "./errors.js";
+import { resolveWorkspacePath } from "../utils/workspace.js";
+import { withPage } from "./browserPool.js";
+import { collectDiagnostics, DiagnosticsSchema, formatDiagnostics, type PageDiagnostics } from "./pageDiagnostics.js";
+import { runScreenshotActions, ScreenshotActionSchema, webUrl, type StepScreenshotResult } from "./screenshotActions.js";
+import {
+  baselinePath,
+  BaselineNameSchema,
+  checkBaseline,
+  describeVisualCheck,
+  IgnoreRegionSchema,
+  VISUAL_MODES,
+  type VisualCheckResult,
+} from "./visualRegression.js";
 
-const execPromise = promisify(exec);
+const execFilePromise = promisify(execFile);
 
 // Colorful logging for the screenshot tool
 const log = {
@@ -31,13 +49,86 @@ const log = {
 // Define the tool name, description, and schema
 export const screenshotToolName = "screenshot";
 export const screenshotToolDescription =
-  `[DOES NOT WORK! USE ANOTHER MCP SERVER'S SCREENSHOT TOOL INSTEAD] Take a screenshot of a URL or a local path (relative URL appended to http://localhost:${PORT}).`;
+  `Take a screenshot of an http(s) URL or a local path (appended to http://localhost:${PORT}) in headless Chromium. `
+  + "Optionally emulate a device, viewport or color scheme, capture a single element, and run scripted actions first (log in, open a modal). "
+  + "Can save the capture as a named visual baseline or compare it with one, and report console messages, page errors, failed requests, "
+  + "timings and an accessibility audit from the same visit.";
+
+const ViewportSchema = z.object({
+  width: z.number().int().min(100).max(7680).describe("Viewport width in CSS pixels"),
+  height: z.number().int().min(100).max(4320).describe("Viewport height in CSS pixels"),
+  deviceScaleFactor: z.number().min(1).max(4).optional().describe("Device pixel ratio (default 1, or the device preset's)"),
+});
+
 export const ScreenshotToolSchema = z.object({
-  url: z.string().optional().describe("Full URL to screenshot (e.g., https://example.com)"),
+  url: z.string().optional().describe("Full http(s) URL to screenshot (e.g., https://example.com)"),
   relativePath: z.string().optional().describe(`Relative path appended to http://localhost:${PORT} (e.g., 'dashboard' becomes http://localhost:${PORT}/dashboard)`),
-  fullPathToScreenshot: z.string().describe("Path where the screenshot will be saved (e.g., /tmp/screenshot.png)"),
+  fullPathToScreenshot: z.string().optional().describe("Path where the screenshot will be saved (e.g., /tmp/screenshot.png); omit to only return the image"),
+  device: z.enum(["mobile", "tablet", "desktop"]).optional().describe("Device preset: viewport, pixel ratio, touch and user agent of a phone, tablet or laptop"),
+  viewport: ViewportSchema.optional().describe("Viewport size; overrides the device preset's size"),
+  colorScheme: z.enum(["light", "dark"]).optional().describe("Emulate prefers-color-scheme"),
+  selector: z.string().optional().describe("CSS selector of one element to capture instead of the page"),
+  fullPage: z.boolean().default(true).describe("Capture the whole scrollable page rather than the viewport (ignored with selector)"),
+  waitUntil: z.enum(["load", "domcontentloaded", "networkidle0", "networkidle2"]).default("networkidle0").describe("When navigation counts as finished"),
+  waitForSelector: z.string().optional().describe("CSS selector to wait for (visible) before capturing"),
+  waitForTimeout: z.number().int().min(0).max(60_000).optional().describe("Extra milliseconds to wait before capturing, e.g. for animations"),
+  format: z.enum(["png", "jpeg", "webp"]).optional().describe("Image format (default: from the file extension, else png)"),
+  quality: z.number().int().min(0).max(100).optional().describe("JPEG/WebP quality, 0-100"),
+  actions: z.array(ScreenshotActionSchema).max(50).default([]).describe("Steps run in order after the page loads and before the capture (log in, open a modal, switch a tab, ...)"),
+  mode: z.enum(VISUAL_MODES).default("capture").describe("capture, update-baseline (save the capture as the named baseline) or compare (diff against it; saved as the baseline when there is none yet)"),
+  baseline: BaselineNameSchema.optional().describe("Baseline name for update-baseline and compare, e.g. 'lobby-mobile-dark'"),
+  threshold: z.number().min(0).max(1).default(0.1).describe("Per-pixel color difference tolerated when comparing, 0-1 (smaller is stricter)"),
+  maxMismatchPercent: z.number().min(0).max(100).default(0).describe("Percentage of differing pixels at which the comparison fails"),
+  ignoreRegions: z.array(IgnoreRegionSchema).default([]).describe("Rectangles (in image pixels) left out of the comparison, e.g. clocks or live prices"),
+  diagnostics: DiagnosticsSchema.default([]).describe("Also report from the same visit: console messages, uncaught page errors, failed/4xx/5xx requests, performance timings, an axe-core accessibility audit"),
 });
 
+type ScreenshotArgs = z.infer<typeof ScreenshotToolSchema>;
+type ImageFormat = NonNullable<ScreenshotArgs["format"]>;
+
+interface DevicePreset {
+  width: number;
+  height: number;
+  deviceScaleFactor: number;
+  isMobile: boolean;
+  hasTouch: boolean;
+  userAgent?: string;
+}
+
+// A current phone, tablet and laptop; desktop keeps Chromium's own user agent
+const DEVICE_PRESETS: Record<NonNullable<ScreenshotArgs["device"]>, DevicePreset> = {
+  mobile: {
+    width: 390,
+    height: 844,
+    deviceScaleFactor: 3,
+    isMobile: true,
+    hasTouch: true,
+    userAgent: "Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1",
+  },
+  tablet: {
+    width: 820,
+    height: 1180,
+    deviceScaleFactor: 2,
+    isMobile: true,
+    hasTouch: true,
+    userAgent: "Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1",
+  },
+  desktop: {
+    width: 1440,
+    height: 900,
+    deviceScaleFactor: 1,
+    isMobile: false,
+    hasTouch: false,
+  },
+};
+
+const FORMAT_EXTENSIONS: Record<string, ImageFormat> = {
+  ".png": "png",
+  ".jpg": "jpeg",
+  ".jpeg": "jpeg",
+  ".webp": "webp",
+};
+
 // Fallback screenshot function using curl
 async function takeScreenshotWithCurl(url: string, outputPath: string): Promise<Buffer> {
   log.info(`🔄 Attempting screenshot with curl fallback method...`);
@@ -73,9 +164,10 @@ async function takeScreenshotWithCurl(url: string, outputPath: string): Promise<
     
     // Convert HTML to PNG using wkhtmltoimage if available
     try {
-      await execPromise(`which wkhtmltoimage`);
+      await execFilePromise('which', ['wkhtmltoimage']);
       log.info(`📄 Using wkhtmltoimage to convert HTML to PNG...`);
-      await execPromise(`wkhtmltoimage ${tempHtmlPath} ${outputPath}`);
+      // No shell: the (absolute) paths are passed as arguments, never interpolated into a command line
+      await execFilePromise('wkhtmltoimage', [tempHtmlPath, outputPath]);
     } catch (e) {
       // If wkhtmltoimage is not available, just copy a placeholder image
       log.warning(`wkhtmltoimage not available, creating a text file instead`);
@@ -96,68 +188,170 @@ async function takeScreenshotWithCurl(url: string, outputPath: string): Promise<
   }
 }
 
+// Viewport, user agent and color scheme, before navigation so the page renders for them
+async function emulate(page: Page, args: ScreenshotArgs): Promise<void> {
+  const preset = args.device ? DEVICE_PRESETS[args.device] : undefined;
+  if (preset || args.viewport) {
+    await page.setViewport({
+      width: args.viewport?.width ?? preset!.width,
+      height: args.viewport?.height ?? preset!.height,
+      deviceScaleFactor: args.viewport?.deviceScaleFactor ?? preset?.deviceScaleFactor ?? 1,
+      isMobile: preset?.isMobile ?? false,
+      hasTouch: preset?.hasTouch ?? false,
+    });
+  }
+  if (preset?.userAgent) {
+    await page.setUserAgent(preset.userAgent);
+  }
+  if (args.colorScheme) {
+    await page.emulateMediaFeatures([{ name: "prefers-color-scheme", value: args.colorScheme }]);
+  }
+}
+
+// Capture the page, or only the element matched by `selector`
+async function capture(page: Page, args: ScreenshotArgs, format: ImageFormat): Promise<Buffer> {
+  const options = { type: format, quality: format === "png" ? undefined : args.quality };
+  if (!args.selector) {
+    return Buffer.from(await page.screenshot({ ...options, fullPage: args.fullPage }));
+  }
+  const element = await page.$(args.selector);
+  if (!element) {
+    throw new ToolError("NOT_FOUND", `No element matches selector "${args.selector}"`, { selector: args.selector });
+  }
+  return Buffer.from(await element.screenshot(options));
+}
+
 // Run the Screenshot tool
 export async function runScreenshotTool(
-  args: z.infer<typeof ScreenshotToolSchema>,
-) {
+  args: ScreenshotArgs,
+  context?: ToolContext,
+): Promise<CallToolResult> {
   // Determine final URL
   let finalUrl = args.url;
   if (!finalUrl) {
     if (!args.relativePath) {
       log.error("Must provide either 'url' or 'relativePath'");
-      throw new Error("Must provide either 'url' or 'relativePath'");
+      throw new ToolError("INVALID_ARGUMENTS", "Must provide either 'url' or 'relativePath'");
     }
     finalUrl = `http://localhost:${PORT}/${args.relativePath.replace(/^\//, "")}`;
   }
-  const fullPathToScreenshot = path.resolve(args.fullPathToScreenshot);
-  
-  log.info(`📷 Preparing to capture: ${chalk.cyan(finalUrl)}`);
-  log.info(`🎯 Will save to: ${chalk.magenta(fullPathToScreenshot)}`);
+  const url = webUrl(finalUrl);
+  // Without a path the image is only returned, never written
+  const fullPathToScreenshot = args.fullPathToScreenshot
+    ? resolveWorkspacePath(args.fullPathToScreenshot, "fullPathToScreenshot")
+    : undefined;
+  if (args.mode !== "capture") {
+    if (!args.baseline) {
+      throw new ToolError("INVALID_ARGUMENTS", `mode "${args.mode}" requires a baseline name`);
+    }
+    baselinePath(args.baseline);
+    // Baselines are compared pixel by pixel, so they are always lossless
+    if (args.format && args.format !== "png") {
+      throw new ToolError("INVALID_ARGUMENTS", `mode "${args.mode}" captures PNG; format "${args.format}" is not supported`);
+    }
+  }
+  const format = args.mode !== "capture" ? "png" : args.format
+    ?? (fullPathToScreenshot ? FORMAT_EXTENSIONS[path.extname(fullPathToScreenshot).toLowerCase()] : undefined)
+    ?? "png";
+  if (args.quality !== undefined && format === "png") {
+    throw new ToolError("INVALID_ARGUMENTS", "quality only applies to jpeg and webp screenshots");
+  }
+
+  // Stages reported as MCP progress: open page, navigate, one per action, [wait,] capture, [diagnostics,] [save,] [baseline]
+  const waits = Boolean(args.waitForSelector || args.waitForTimeout);
+  const totalStages = 3 + args.actions.length + (waits ? 1 : 0) + (args.diagnostics.length > 0 ? 1 : 0)
+    + (fullPathToScreenshot ? 1 : 0) + (args.mode !== "capture" ? 1 : 0);
+
+  log.info(`📷 Preparing to capture: ${chalk.cyan(url)}`);
+  if (fullPathToScreenshot) {
+    log.info(`🎯 Will save to: ${chalk.magenta(fullPathToScreenshot)}`);
+  }
 
   let screenshotBuffer: Buffer;
+  let stepScreenshots: StepScreenshotResult[] = [];
+  let diagnostics: PageDiagnostics | undefined;
   
   try {
-    // Try with Puppeteer first
-    log.info(`🚀 Launching browser...`);
-    const browser = await puppeteer.launch({
-      args: [
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-accelerated-2d-canvas',
-        '--disable-gpu',
-        '--no-first-run',
-        '--no-zygote',
-        '--single-process'
-      ],
-      headless: true
-    });
-    
-    const page = await browser.newPage();
-    await page.setBypassCSP(true);
-    
-    log.info(`🌐 Navigating to URL...`);
-    await page.goto(finalUrl, { waitUntil: 'networkidle0', timeout: 30000 });
-    
-    log.info(`📸 Taking screenshot...`);
-    screenshotBuffer = (await page.screenshot({
-      fullPage: true,
-    })) as Buffer;
-    
-    log.info(`🔄 Closing browser...`);
-    await browser.close();
+    // Try with Puppeteer first, in a page from the shared browser pool
+    log.info(`🚀 Opening browser page...`);
+    await context?.reportProgress("Opening browser page", totalStages);
+    screenshotBuffer = await withPage(async (page) => {
+      await page.setBypassCSP(true);
+      await emulate(page, args);
+      // Listening starts before navigation so the page load's own messages and requests are included
+      const collector = args.diagnostics.length > 0 ? collectDiagnostics(page, args.diagnostics) : undefined;
+
+      log.info(`🌐 Navigating to URL...`);
+      await context?.reportProgress(`Navigating to ${url}`, totalStages);
+      await page.goto(url, { waitUntil: args.waitUntil, timeout: TIMEOUTS.screenshot });
+
+      stepScreenshots = await runScreenshotActions(
+        page,
+        args.actions,
+        { timeoutMs: TIMEOUTS.screenshot, format, quality: args.quality },
+        async (step, description) => {
+          log.info(`🎬 Step ${step}: ${description}`);
+          await context?.reportProgress(`Step ${step}: ${description}`, totalStages);
+        },
+      );
+
+      if (waits) {
+        await context?.reportProgress("Waiting for the page to settle", totalStages);
+      }
+      if (args.waitForSelector) {
+        log.info(`⏳ Waiting for ${args.waitForSelector}...`);
+        try {
+          await page.waitForSelector(args.waitForSelector, { visible: true, timeout: TIMEOUTS.screenshot });
+        } catch {
+          throw new ToolError("TIMEOUT", `Selector "${args.waitForSelector}" did not become visible within ${TIMEOUTS.screenshot}ms`);
+        }
+      }
+      if (args.waitForTimeout) {
+        await new Promise((resolve) => setTimeout(resolve, args.waitForTimeout));
+      }
+
+      log.info(`📸 Taking screenshot...`);
+      await context?.reportProgress(args.selector ? `Capturing ${args.selector}` : "Capturing screenshot", totalStages);
+      const image = await capture(page, args, format);
+
+      if (collector) {
+        log.info(`🩺 Collecting page diagnostics...`);
+        await context?.reportProgress(`Collecting ${args.diagnostics.join(", ")}`, totalStages);
+        diagnostics = await collector.finish();
+      }
+      return image;
+    }, context?.signal);
   } catch (error) {
+    // Cancellation, a failed action, a missing element or a selector that never appeared are answers, not rendering failures
+    if (error instanceof ToolError) throw error;
+    // Without a path there is nowhere for the fallback to write, and its placeholder is no baseline
+    if (!fullPathToScreenshot || args.mode !== "capture") {
+      throw new ToolError("UPSTREAM_ERROR", `Screenshot of ${url} failed: ${error instanceof Error ? error.message : error}`);
+    }
     log.warning(`Puppeteer screenshot failed: ${error}`);
     log.info(`Trying fallback method...`);
     
     // Use fallback method
-    screenshotBuffer = await takeScreenshotWithCurl(finalUrl, fullPathToScreenshot);
+    screenshotBuffer = await takeScreenshotWithCurl(url, fullPathToScreenshot);
   }
   
-  log.info(`💾 Saving screenshot...`);
-  await fs.promises.writeFile(fullPathToScreenshot, screenshotBuffer);
+  if (fullPathToScreenshot) {
+    log.info(`💾 Saving screenshot...`);
+    await context?.reportProgress(`Saving screenshot to ${fullPathToScreenshot}`, totalStages);
+    await fs.promises.writeFile(fullPathToScreenshot, screenshotBuffer);
+  }
   
   log.success(`✨ Screenshot captured successfully! (${Math.round(screenshotBuffer.length / 1024)}KB)`);
+
+  let visualCheck: VisualCheckResult | undefined;
+  if (args.mode !== "capture") {
+    await context?.reportProgress(
+      args.mode === "compare" ? `Comparing with baseline ${args.baseline}` : `Saving baseline ${args.baseline}`,
+      totalStages,
+    );
+    visualCheck = checkBaseline(args.mode, args.baseline!, screenshotBuffer, args);
+    log.info(`🔍 ${describeVisualCheck(visualCheck)}`);
+  }
   
   // Convert buffer to base64
   const base64Image = screenshotBuffer.toString('base64');
@@ -166,13 +360,62 @@ export async function runScreenshotTool(
     content: [
       {
         type: "text",
-        text: `Screenshot of ${finalUrl} has been captured and saved to ${fullPathToScreenshot}.`,
+        text: `Screenshot of ${url}${args.selector ? ` (${args.selector})` : ""} has been captured`
+          + `${args.actions.length > 0 ? ` after ${args.actions.length} action(s)` : ""}`
+          + `${fullPathToScreenshot ? ` and saved to ${fullPathToScreenshot}` : ""}.`
+          + `${visualCheck ? `\n${describeVisualCheck(visualCheck)}` : ""}`,
       },
+      ...(diagnostics ? [{ type: "text" as const, text: formatDiagnostics(diagnostics) }] : []),
+      // Step screenshots in order, each after a line naming its step
+      ...stepScreenshots.flatMap((step) => [
+        { type: "text" as const, text: `After step ${step.step} (${step.description}):` },
+        { type: "image" as const, data: step.image.toString("base64"), mimeType: `image/${format}` },
+      ]),
+      ...(stepScreenshots.length > 0 || visualCheck?.comparison ? [{ type: "text" as const, text: "Final screenshot:" }] : []),
       {
         type: "image",
         data: base64Image,
-        mimeType: "image/png"
-      }
+        mimeType: `image/${format}`
+      },
+      // Differing pixels in red over a faded copy of the capture
+      ...(visualCheck?.comparison
+        ? [
+          { type: "text" as const, text: `Diff against baseline "${visualCheck.baseline}":` },
+          { type: "image" as const, data: visualCheck.comparison.diff.toString("base64"), mimeType: "image/png" },
+        ]
+        : []),
     ],
+    structuredContent: visualCheck || diagnostics
+      ? {
+        diagnostics,
+        visualCheck: visualCheck && {
+          status: visualCheck.status,
+          baseline: visualCheck.baseline,
+          baselineFile: visualCheck.baselineFile,
+          maxMismatchPercent: visualCheck.maxMismatchPercent,
+          ...(visualCheck.comparison && {
+            width: visualCheck.comparison.width,
+            height: visualCheck.comparison.height,
+            comparedPixels: visualCheck.comparison.comparedPixels,
+            mismatchedPixels: visualCheck.comparison.mismatchedPixels,
+            mismatchPercent: visualCheck.comparison.mismatchPercent,
+            sizeChange: visualCheck.comparison.sizeChange,
+          }),
+        },
+      }
+      : undefined,
   };
 }
+
+// Tool definition (registered in src/tools/index.ts)
+export const screenshotTool = defineTool({
+  name: screenshotToolName,
+  description: screenshotToolDescription,
+  schema: ScreenshotToolSchema,
+  handler: async (args, context) => {
+    logger.highlight(`📸 Taking screenshot with args: ${JSON.stringify(args)}`);
+    const result = await runScreenshotTool(args, context);
+    logger.success(`Screenshot captured successfully!`);
+    return result;
+  },
+});
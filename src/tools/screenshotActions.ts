@@ -0,0 +1,207 @@
+// src/tools/screenshotActions.ts
+
+/**
+ * Scripted browser actions for the screenshot tool
+ *   - An ordered list of steps (navigate, click, type, press, wait, cookie, localStorage, assert) run in
+ *     the page after it has loaded and before the capture, e.g. to log in or open a modal
+ *   - A failing step stops the script with ACTION_FAILED, naming the step
+ *   - Any step can ask for a screenshot of the page right after it ran
+ *   - Pages are only ever opened over http(s); file:, data: and other schemes are rejected
+ */
+
+import { z } from "zod";
+import type { KeyInput, Page } from "puppeteer";
+import { ToolError } from "./errors.js";
+
+const WaitUntilSchema = z.enum(["load", "domcontentloaded", "networkidle0", "networkidle2"]);
+
+const StepScreenshot = z.boolean().default(false).describe("Capture the viewport after this step and return it");
+const WaitForNavigation = z.boolean().default(false).describe("The step triggers a page load (e.g. submitting a form): wait for it");
+
+export const ScreenshotActionSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("navigate"),
+    url: z.string().min(1).describe("Full http(s) URL, or a path resolved against the current page (e.g. '/dashboard')"),
+    waitUntil: WaitUntilSchema.default("networkidle0"),
+    screenshot: StepScreenshot,
+  }),
+  z.object({
+    type: z.literal("click"),
+    selector: z.string().min(1).describe("CSS selector of the element to click (waits until it is visible)"),
+    waitForNavigation: WaitForNavigation,
+    screenshot: StepScreenshot,
+  }),
+  z.object({
+    type: z.literal("type"),
+    selector: z.string().min(1).describe("CSS selector of the input to type into"),
+    text: z.string().describe("Text to type"),
+    clear: z.boolean().default(false).describe("Clear the input before typing"),
+    screenshot: StepScreenshot,
+  }),
+  z.object({
+    type: z.literal("press"),
+    key: z.string().min(1).describe("Key name, e.g. 'Enter', 'Escape', 'Tab', 'ArrowDown'"),
+    waitForNavigation: WaitForNavigation,
+    screenshot: StepScreenshot,
+  }),
+  z.object({
+    type: z.literal("waitForSelector"),
+    selector: z.string().min(1),
+    hidden: z.boolean().default(false).describe("Wait for the element to disappear instead"),
+    screenshot: StepScreenshot,
+  }),
+  z.object({
+    type: z.literal("setCookie"),
+    name: z.string().min(1),
+    value: z.string(),
+    domain: z.string().optional().describe("Cookie domain (default: the current page's host)"),
+    path: z.string().default("/"),
+    httpOnly: z.boolean().optional(),
+    secure: z.boolean().optional(),
+    screenshot: StepScreenshot,
+  }),
+  z.object({
+    type: z.literal("setLocalStorage"),
+    key: z.string().min(1),
+    value: z.string(),
+    screenshot: StepScreenshot,
+  }),
+  z.object({
+    type: z.literal("assert"),
+    expression: z.string().min(1).describe("JavaScript expression evaluated in the page; the step fails unless it is truthy"),
+    message: z.string().optional().describe("Shown when the assertion fails"),
+    screenshot: StepScreenshot,
+  }),
+]);
+
+export type ScreenshotAction = z.infer<typeof ScreenshotActionSchema>;
+
+export interface ActionOptions {
+  // Applies to every wait, navigation and selector lookup
+  timeoutMs: number;
+  format: "png" | "jpeg" | "webp";
+  quality?: number;
+}
+
+export interface StepScreenshotResult {
+  step: number;
+  description: string;
+  image: Buffer;
+}
+
+// Resolve `url` (against `base` when relative), rejecting anything but http and https
+export function webUrl(url: string, base?: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url, base);
+  } catch {
+    throw new ToolError("INVALID_ARGUMENTS", `Not a valid URL: ${url}`);
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new ToolError("INVALID_ARGUMENTS", `Only http and https URLs can be opened: ${url}`);
+  }
+  return parsed.href;
+}
+
+// "click #login", "type into input[name=email]", ...
+export function describeAction(action: ScreenshotAction): string {
+  switch (action.type) {
+    case "navigate":
+      return `navigate to ${action.url}`;
+    case "click":
+      return `click ${action.selector}`;
+    case "type":
+      return `type into ${action.selector}`;
+    case "press":
+      return `press ${action.key}`;
+    case "waitForSelector":
+      return `wait for ${action.selector}${action.hidden ? " to disappear" : ""}`;
+    case "setCookie":
+      return `set cookie ${action.name}`;
+    case "setLocalStorage":
+      return `set localStorage ${action.key}`;
+    case "assert":
+      return `assert ${action.expression}`;
+  }
+}
+
+// Run `trigger`, also waiting for the page load it causes when asked to
+async function withNavigation(page: Page, waitForNavigation: boolean, timeoutMs: number, trigger: () => Promise<void>): Promise<void> {
+  if (!waitForNavigation) {
+    await trigger();
+    return;
+  }
+  await Promise.all([page.waitForNavigation({ waitUntil: "networkidle0", timeout: timeoutMs }), trigger()]);
+}
+
+async function runAction(page: Page, action: ScreenshotAction, timeoutMs: number): Promise<void> {
+  switch (action.type) {
+    case "navigate":
+      await page.goto(webUrl(action.url, page.url()), { waitUntil: action.waitUntil, timeout: timeoutMs });
+      return;
+    case "click": {
+      await page.waitForSelector(action.selector, { visible: true, timeout: timeoutMs });
+      await withNavigation(page, action.waitForNavigation, timeoutMs, () => page.click(action.selector));
+      return;
+    }
+    case "type": {
+      const input = await page.waitForSelector(action.selector, { visible: true, timeout: timeoutMs });
+      if (action.clear) {
+        await input!.click({ count: 3 });
+        await page.keyboard.press("Backspace");
+      }
+      await input!.type(action.text);
+      return;
+    }
+    case "press":
+      await withNavigation(page, action.waitForNavigation, timeoutMs, () => page.keyboard.press(action.key as KeyInput));
+      return;
+    case "waitForSelector":
+      await page.waitForSelector(action.selector, action.hidden ? { hidden: true, timeout: timeoutMs } : { visible: true, timeout: timeoutMs });
+      return;
+    case "setCookie": {
+      const { type, screenshot, ...cookie } = action;
+      await page.browserContext().setCookie({ ...cookie, domain: cookie.domain ?? new URL(page.url()).hostname });
+      return;
+    }
+    case "setLocalStorage":
+      await page.evaluate((key, value) => localStorage.setItem(key, value), action.key, action.value);
+      return;
+    case "assert": {
+      const result = await page.evaluate(action.expression);
+      if (!result) {
+        throw new Error(action.message ?? `${action.expression} evaluated to ${JSON.stringify(result) ?? "undefined"}`);
+      }
+      return;
+    }
+  }
+}
+
+// Run the steps in order; the screenshots of steps that asked for one are returned
+export async function runScreenshotActions(
+  page: Page,
+  actions: ScreenshotAction[],
+  options: ActionOptions,
+  onStep?: (step: number, description: string) => Promise<void>,
+): Promise<StepScreenshotResult[]> {
+  const screenshots: StepScreenshotResult[] = [];
+  for (const [index, action] of actions.entries()) {
+    const step = index + 1;
+    const description = describeAction(action);
+    await onStep?.(step, description);
+    try {
+      await runAction(page, action, options.timeoutMs);
+    } catch (error) {
+      throw new ToolError(
+        "ACTION_FAILED",
+        `Step ${step} (${description}) failed: ${error instanceof Error ? error.message : error}`,
+        { step, action },
+      );
+    }
+    if (action.screenshot) {
+      const image = await page.screenshot({ type: options.format, quality: options.format === "png" ? undefined : options.quality });
+      screenshots.push({ step, description, image: Buffer.from(image) });
+    }
+  }
+  return screenshots;
+}
@@ -0,0 +1,141 @@
+// src/tools/testFileWriter.test.ts
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { ToolError } from "./errors.js";
+import { parseFileManifest, planTestFileWrite } from "./testFileWriter.js";
+
+const block = (code: string) => `\`\`\`ts\n${code}\n\`\`\``;
+
+describe("parseFileManifest", () => {
+  it("reads plain, heading, bold and backticked FILE headers", () => {
+    const response = [
+      `FILE: users.test.ts\n${block("users")}`,
+      `## FILE: helpers/client.ts\n${block("client")}`,
+      `**FILE:** \`fixtures/users.ts\`\n${block("fixtures")}`,
+      `**FILE: mocks/db.ts**\n\n${block("db")}`,
+      `FILE: \`orders.spec.ts\`\n${block("orders")}`,
+    ].join("\n\n");
+    const { files, rejected, unparsed } = parseFileManifest(response);
+    assert.deepEqual(files, [
+      { path: "users.test.ts", kind: "suite", content: "users\n" },
+      { path: "helpers/client.ts", kind: "support", content: "client\n" },
+      { path: "fixtures/users.ts", kind: "support", content: "fixtures\n" },
+      { path: "mocks/db.ts", kind: "support", content: "db\n" },
+      { path: "orders.spec.ts", kind: "suite", content: "orders\n" },
+    ]);
+    assert.deepEqual(rejected, []);
+    assert.deepEqual(unparsed, []);
+  });
+
+  it("rejects paths that leave testDir", () => {
+    const response = `FILE: ../outside.test.ts\n${block("a")}\n\nFILE: /etc/passwd\n${block("b")}\n\nFILE: ./ok.test.ts\n${block("c")}`;
+    const { files, rejected } = parseFileManifest(response);
+    assert.deepEqual(files.map((file) => file.path), ["ok.test.ts"]);
+    assert.deepEqual(rejected, ["../outside.test.ts", "/etc/passwd"]);
+  });
+
+  it("reports FILE headers without a code block", () => {
+    const response = `FILE: a.test.ts\n${block("a")}\n\nFILE: b.test.ts\nThe code for b is the same as a.\n\nFILE:\n${block("c")}`;
+    const { files, unparsed } = parseFileManifest(response);
+    assert.deepEqual(files.map((file) => file.path), ["a.test.ts"]);
+    assert.deepEqual(unparsed, ["FILE: b.test.ts", "FILE:"]);
+  });
+
+  it("keeps the last entry for a repeated path", () => {
+    const { files } = parseFileManifest(`FILE: a.test.ts\n${block("first")}\n\nFILE: a.test.ts\n${block("second")}`);
+    assert.deepEqual(files, [{ path: "a.test.ts", kind: "suite", content: "second\n" }]);
+  });
+
+  it("does not treat FILE: inside a code block as a header", () => {
+    const { files, unparsed } = parseFileManifest(`FILE: a.test.ts\n${block("// FILE: not-a-header.ts\nconst x = 1;")}`);
+    assert.equal(files.length, 1);
+    assert.deepEqual(unparsed, []);
+  });
+});
+
+describe("planTestFileWrite in merge mode", () => {
+  let dir: string;
+  // Plan merging `generated` into a file that holds `existing`
+  const merge = (existing: string, generated: string) => {
+    const file = path.join(fs.mkdtempSync(path.join(dir, "case-")), "users.test.ts");
+    fs.writeFileSync(file, existing);
+    return planTestFileWrite(file, generated, "merge");
+  };
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-test-writer-test-"));
+  });
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("carries over the fixtures, mocks, hooks and helpers the new blocks need", () => {
+    const existing = [
+      'import request from "supertest";',
+      'import { app } from "../src/app";',
+      "",
+      'const token = "existing";',
+      "",
+      'describe("GET /users", () => {});',
+    ].join("\n");
+    const generated = [
+      'import request from "supertest";',
+      'import { app } from "../src/app";',
+      'import { db } from "../src/db";',
+      "",
+      'jest.mock("../src/db");',
+      'const token = "generated";',
+      "const newUser = { name: \"Ada\" };",
+      "function authed(req) { return req.set(\"Authorization\", token); }",
+      "beforeEach(() => db.reset());",
+      "",
+      'describe("GET /users", () => {});',
+      'describe("POST /users", () => { it("creates", () => authed(request(app).post("/users")).send(newUser)); });',
+    ].join("\n");
+    const plan = merge(existing, generated);
+    assert.equal(plan.action, "merge");
+    assert.deepEqual(plan.appended, ["POST /users"]);
+    assert.deepEqual(plan.skipped, ["GET /users"]);
+    assert.equal(plan.content, [
+      'import request from "supertest";',
+      'import { app } from "../src/app";',
+      'import { db } from "../src/db";',
+      "",
+      'const token = "existing";',
+      "",
+      'describe("GET /users", () => {});',
+      "",
+      'jest.mock("../src/db");',
+      "",
+      "const newUser = { name: \"Ada\" };",
+      "",
+      "function authed(req) { return req.set(\"Authorization\", token); }",
+      "",
+      "beforeEach(() => db.reset());",
+      "",
+      'describe("POST /users", () => { it("creates", () => authed(request(app).post("/users")).send(newUser)); });',
+      "",
+    ].join("\n"));
+  });
+
+  it("does not repeat calls the file already makes", () => {
+    const plan = merge('vi.mock("./db");\n\ndescribe("a", () => {});\n', 'vi.mock("./db");\n\ndescribe("b", () => {});\n');
+    assert.equal(plan.content, 'vi.mock("./db");\n\ndescribe("a", () => {});\n\ndescribe("b", () => {});\n');
+  });
+
+  it("refuses with CONFLICT when a new block uses a name it cannot add", () => {
+    const existing = 'import { createUser } from "./fixtures";\n\ndescribe("a", () => {});\n';
+    const generated = 'import { createUser, createOrder } from "./fixtures";\n\ndescribe("b", () => { createOrder(createUser()); });\n';
+    assert.throws(() => merge(existing, generated), (error: unknown) => {
+      assert.ok(error instanceof ToolError);
+      assert.equal(error.code, "CONFLICT");
+      assert.match(error.message, /createOrder/);
+      assert.doesNotMatch(error.message, /createUser/);
+      return true;
+    });
+  });
+});
@@ -0,0 +1,294 @@
+// src/tools/testFileWriter.ts
+
+/**
+ * Writing generated test files
+ *   - Existing files are never overwritten silently: a conflict mode decides between failing, a numbered
+ *     file name, overwriting, or appending only the new top-level describe blocks (with the fixtures, mocks,
+ *     hooks and helpers they need)
+ *   - A write is planned first, so a dry run can show the unified diff without touching the disk
+ *   - Multi-file output is a manifest of `FILE: <path>` headed code blocks, with paths kept inside testDir
+ */
+
+import fs from "fs";
+import path from "path";
+import ts from "typescript";
+import { createUnifiedDiff } from "../utils/diff.js";
+import logger from "../utils/logger.js";
+import { ToolError } from "./errors.js";
+
+export const CONFLICT_MODES = ["fail", "suffix", "overwrite", "merge"] as const;
+export type ConflictMode = (typeof CONFLICT_MODES)[number];
+
+export interface WritePlan {
+  path: string;
+  // unchanged = merge found no new describe blocks, so nothing is written
+  action: "create" | "overwrite" | "merge" | "unchanged";
+  content: string;
+  // The file as it was before this call, when it existed
+  previous?: string;
+  // merge: titles of the describe blocks appended, and of those skipped because the file already has them
+  appended?: string[];
+  skipped?: string[];
+  // Dry run in "fail" mode on an existing file: a real run would throw CONFLICT
+  refused?: boolean;
+}
+
+// A file of generated test code; `path` is relative to testDir, with "/" separators
+export interface GeneratedFile {
+  path: string;
+  // suite = a test file the runner executes; support = fixtures, helpers, mock setup imported by the suites
+  kind: "suite" | "support";
+  content: string;
+}
+
+const SUITE_FILE = /\.(?:test|spec|cy)\.[cm]?[jt]sx?$/;
+
+// `FILE: users/users.test.ts` (optionally as a heading, in bold as `**FILE:** \`path\``, or in backticks)
+// followed by a fenced code block
+const MANIFEST_ENTRY = /^[#*\s]*FILE:[* \t]*`?([^`\s*]+)`?[*\s]*\n+```[\w-]*\n([\s\S]*?)\n```/gm;
+// Any `FILE:` header line, to find the ones that are not followed by a code block
+const MANIFEST_HEADER = /^[#*\s]*FILE:.*$/gm;
+
+// Normalise a path from the model to one inside testDir, or undefined when it would escape it
+function safeRelativePath(filePath: string): string | undefined {
+  const normalised = path.posix.normalize(filePath.replace(/\\/g, "/")).replace(/^\.\//, "");
+  if (path.posix.isAbsolute(normalised) || normalised === ".." || normalised.startsWith("../")) return undefined;
+  return normalised;
+}
+
+// Files in a multi-file response; later entries for the same path replace earlier ones. `rejected` are paths outside
+// testDir, `unparsed` the `FILE:` header lines that could not be read as a file (no path, or no code block after them)
+export function parseFileManifest(response: string): { files: GeneratedFile[]; rejected: string[]; unparsed: string[] } {
+  const files = new Map<string, GeneratedFile>();
+  const rejected: string[] = [];
+  const entries = [...response.matchAll(MANIFEST_ENTRY)];
+  const unparsed = [...response.matchAll(MANIFEST_HEADER)]
+    .filter((header) => !entries.some((entry) => header.index >= entry.index && header.index < entry.index + entry[0].length))
+    .map((header) => header[0].trim());
+  for (const [, rawPath, content] of entries) {
+    const filePath = safeRelativePath(rawPath);
+    if (!filePath) {
+      rejected.push(rawPath);
+      continue;
+    }
+    files.set(filePath, { path: filePath, kind: SUITE_FILE.test(filePath) ? "suite" : "support", content: `${content.trim()}\n` });
+  }
+  return { files: [...files.values()], rejected, unparsed };
+}
+
+// describe("..."), describe.each(...)("..."), suite(), context(), test.describe() (Playwright)
+const DESCRIBE_CALLEE = /^(?:describe|suite|context|test\.describe)(?:\.\w+)?$/;
+
+interface DescribeBlock {
+  title: string;
+  text: string;
+  statement: ts.Statement;
+}
+
+function parse(code: string): ts.SourceFile {
+  return ts.createSourceFile("test.ts", code, ts.ScriptTarget.Latest, true, ts.ScriptKind.TSX);
+}
+
+// Top-level describe blocks by title
+function describeBlocks(sourceFile: ts.SourceFile): DescribeBlock[] {
+  const blocks: DescribeBlock[] = [];
+  for (const statement of sourceFile.statements) {
+    if (!ts.isExpressionStatement(statement) || !ts.isCallExpression(statement.expression)) continue;
+    const call = statement.expression;
+    if (!DESCRIBE_CALLEE.test(call.expression.getText(sourceFile))) continue;
+    const title = call.arguments[0];
+    if (title && (ts.isStringLiteral(title) || ts.isNoSubstitutionTemplateLiteral(title))) {
+      blocks.push({ title: title.text, text: statement.getFullText(sourceFile).trim(), statement });
+    }
+  }
+  return blocks;
+}
+
+function moduleSpecifiers(sourceFile: ts.SourceFile): Set<string> {
+  return new Set(ts.preProcessFile(sourceFile.text, true, true).importedFiles.map((file) => file.fileName));
+}
+
+function bindingNames(name: ts.BindingName): string[] {
+  if (ts.isIdentifier(name)) return [name.text];
+  return name.elements.flatMap((element) => (ts.isOmittedExpression(element) ? [] : bindingNames(element.name)));
+}
+
+// Names a top-level statement declares: import bindings, variables, functions, classes, enums and types
+function declaredNames(statement: ts.Statement): string[] {
+  if (ts.isImportDeclaration(statement)) {
+    const clause = statement.importClause;
+    if (!clause) return [];
+    const bindings = clause.namedBindings;
+    return [
+      ...(clause.name ? [clause.name.text] : []),
+      ...(bindings && ts.isNamespaceImport(bindings) ? [bindings.name.text] : []),
+      ...(bindings && ts.isNamedImports(bindings) ? bindings.elements.map((element) => element.name.text) : []),
+    ];
+  }
+  if (ts.isVariableStatement(statement)) {
+    return statement.declarationList.declarations.flatMap((declaration) => bindingNames(declaration.name));
+  }
+  if (
+    (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement) || ts.isEnumDeclaration(statement)
+      || ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement)) && statement.name
+  ) {
+    return [statement.name.text];
+  }
+  return [];
+}
+
+// Identifiers a node refers to (property names after a dot and object keys are not references)
+function referencedNames(node: ts.Node, names = new Set<string>()): Set<string> {
+  if (ts.isIdentifier(node)) {
+    const parent = node.parent;
+    const isKey = (ts.isPropertyAccessExpression(parent) && parent.name === node) || (ts.isPropertyAssignment(parent) && parent.name === node);
+    if (!isKey) names.add(node.text);
+  }
+  ts.forEachChild(node, (child) => {
+    referencedNames(child, names);
+  });
+  return names;
+}
+
+// Append the generated describe blocks whose titles are new, plus the imports and the other top-level statements
+// (fixtures, jest.mock/vi.mock calls, hooks, helpers) the existing file does not have yet. Throws CONFLICT when the
+// appended code would use a top-level name of the generated file that the merged file does not declare
+function mergeTestCode(existing: string, generated: string): { content: string; appended: string[]; skipped: string[] } {
+  const existingFile = parse(existing);
+  const generatedFile = parse(generated);
+  const existingTitles = new Set(describeBlocks(existingFile).map((block) => block.title));
+
+  const blocks = describeBlocks(generatedFile);
+  const newBlocks = blocks.filter((block) => !existingTitles.has(block.title));
+  const skipped = blocks.filter((block) => existingTitles.has(block.title)).map((block) => block.title);
+  if (newBlocks.length === 0) {
+    return { content: existing, appended: [], skipped };
+  }
+
+  // Imports of modules the existing file does not import yet go after its last import
+  const imported = moduleSpecifiers(existingFile);
+  const newImports = generatedFile.statements
+    .filter(ts.isImportDeclaration)
+    .filter((statement) => ts.isStringLiteral(statement.moduleSpecifier) && !imported.has(statement.moduleSpecifier.text));
+  const lastImport = [...existingFile.statements].reverse().find(ts.isImportDeclaration);
+  const insertAt = lastImport ? lastImport.getEnd() : 0;
+  const importLines = newImports.map((statement) => statement.getText(generatedFile)).join("\n");
+  const importText = newImports.length > 0 ? `${lastImport ? "\n" : ""}${importLines}${lastImport ? "" : "\n"}` : "";
+
+  // Other statements are carried over when they declare only new names, or, without declarations, are not in the
+  // existing file word for word
+  const existingNames = new Set(existingFile.statements.flatMap(declaredNames));
+  const existingStatements = new Set(existingFile.statements.map((statement) => statement.getText(existingFile)));
+  const carried = generatedFile.statements.filter((statement) => {
+    if (ts.isImportDeclaration(statement) || blocks.some((block) => block.statement === statement)) return false;
+    const names = declaredNames(statement);
+    return names.length > 0
+      ? names.every((name) => !existingNames.has(name))
+      : !existingStatements.has(statement.getText(generatedFile));
+  });
+
+  const mergedNames = new Set([
+    ...existingNames,
+    ...newImports.flatMap(declaredNames),
+    ...carried.flatMap(declaredNames),
+  ]);
+  const generatedNames = new Set(generatedFile.statements.flatMap(declaredNames));
+  const used = new Set<string>();
+  for (const node of [...carried, ...newBlocks.map((block) => block.statement)]) referencedNames(node, used);
+  const missing = [...used].filter((name) => generatedNames.has(name) && !mergedNames.has(name));
+  if (missing.length > 0) {
+    throw new ToolError(
+      "CONFLICT",
+      `Cannot merge the generated tests: they use ${missing.join(", ")}, which the existing file does not declare `
+        + `and which could not be added without clashing with its declarations. Use onConflict "suffix" or "overwrite"`,
+      { missing },
+    );
+  }
+
+  const body = `${existing.slice(0, insertAt)}${importText}${existing.slice(insertAt)}`.replace(/\s*$/, "");
+  const carriedText = carried.map((statement) => `${statement.getFullText(generatedFile).trim()}\n\n`).join("");
+  return {
+    content: `${body}\n\n${carriedText}${newBlocks.map((block) => block.text).join("\n\n")}\n`,
+    appended: newBlocks.map((block) => block.title),
+    skipped,
+  };
+}
+
+// "api.test.ts" -> "api.2.test.ts", "api.3.test.ts", ... (the first that does not exist)
+function nextFreePath(filePath: string): string {
+  const dir = path.dirname(filePath);
+  const match = path.basename(filePath).match(/^(.*?)((?:\.(?:test|spec))?\.[^.]+)$/);
+  const [stem, extension] = match ? [match[1], match[2]] : [path.basename(filePath), ""];
+  for (let index = 2; ; index++) {
+    const candidate = path.join(dir, `${stem}.${index}${extension}`);
+    if (!fs.existsSync(candidate)) return candidate;
+  }
+}
+
+// Decide where and what to write; `fail` on an existing file throws unless this is a dry run
+export function planTestFileWrite(filePath: string, code: string, mode: ConflictMode, dryRun = false): WritePlan {
+  if (!fs.existsSync(filePath)) {
+    return { path: filePath, action: "create", content: code };
+  }
+  const previous = fs.readFileSync(filePath, "utf-8");
+  switch (mode) {
+    case "fail":
+      if (!dryRun) {
+        throw new ToolError(
+          "CONFLICT",
+          `Test file already exists: ${filePath}. Set onConflict to "suffix", "overwrite" or "merge" to write anyway`,
+          { path: filePath },
+        );
+      }
+      return { path: filePath, action: "overwrite", content: code, previous, refused: true };
+    case "suffix":
+      return { path: nextFreePath(filePath), action: "create", content: code };
+    case "overwrite":
+      return { path: filePath, action: "overwrite", content: code, previous };
+    case "merge":
+      return withCode({ path: filePath, action: "merge", content: previous, previous }, code);
+  }
+}
+
+// The same plan for new code (a repaired suite): merges start again from the original file
+export function withCode(plan: WritePlan, code: string): WritePlan {
+  if ((plan.action !== "merge" && plan.action !== "unchanged") || plan.previous === undefined) {
+    return { ...plan, content: code };
+  }
+  const { content, appended, skipped } = mergeTestCode(plan.previous, code);
+  return { ...plan, action: appended.length > 0 ? "merge" : "unchanged", content, appended, skipped };
+}
+
+export function writePlannedFile(plan: WritePlan): void {
+  if (plan.action === "unchanged") return;
+  try {
+    fs.mkdirSync(path.dirname(plan.path), { recursive: true });
+    fs.writeFileSync(plan.path, plan.content);
+    logger.success(`Test file saved to: ${plan.path}`);
+  } catch (err: any) {
+    throw new ToolError("FILE_WRITE_FAILED", `Failed to save test file ${plan.path}: ${err.message}`);
+  }
+}
+
+// Unified diff from what is on disk now to what the plan writes
+export function diffPlannedFile(plan: WritePlan, baseDir: string): string {
+  return createUnifiedDiff(path.relative(baseDir, plan.path), plan.previous, plan.content);
+}
+
+// One line for the tool result, e.g. "/repo/test/api.test.ts (new file)"
+export function describeWritePlan(plan: WritePlan): string {
+  if (plan.refused) {
+    return `${plan.path} (already exists; refused with onConflict "fail")`;
+  }
+  switch (plan.action) {
+    case "create":
+      return `${plan.path} (new file)`;
+    case "overwrite":
+      return `${plan.path} (replaces the existing file)`;
+    case "merge":
+      return `${plan.path} (appends ${plan.appended!.length} describe block(s): ${plan.appended!.join(", ")}`
+        + `${plan.skipped!.length > 0 ? `; skipped existing: ${plan.skipped!.join(", ")}` : ""})`;
+    case "unchanged":
+      return `${plan.path} (unchanged: every generated describe block already exists)`;
+  }
+}
@@ -0,0 +1,184 @@
+// src/tools/visualRegression.ts
+
+/**
+ * Visual regression checks for the screenshot tool
+ *   - Baselines are PNGs named by the caller, kept in `screenshot.baselineDir`; the directory is the operator's
+ *     and trusted, only the name has to stay inside it
+ *   - A comparison counts the pixels that differ beyond a color threshold (anti-aliasing is ignored),
+ *     outside the ignored regions, and draws them in red on a faded copy of the capture
+ *   - Images of different sizes are compared on the larger canvas; the area only one of them covers differs
+ *   - Comparing against a baseline that does not exist yet saves the capture as that baseline
+ */
+
+import fs from "fs";
+import path from "path";
+import pixelmatch from "pixelmatch";
+import { PNG } from "pngjs";
+import { z } from "zod";
+import { config } from "../config/config.js";
+import { isInsideWorkspace } from "../utils/workspace.js";
+import { ToolError } from "./errors.js";
+
+export const BaselineNameSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9][\w.-]*$/, "Baseline names may only contain letters, digits, '.', '_' and '-'")
+  .max(100);
+
+// In pixels of the captured image (CSS pixels times the device scale factor)
+export const IgnoreRegionSchema = z.object({
+  x: z.number().int().min(0),
+  y: z.number().int().min(0),
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+});
+
+export type IgnoreRegion = z.infer<typeof IgnoreRegionSchema>;
+
+export interface ImageComparison {
+  width: number;
+  height: number;
+  // Pixels compared: the canvas minus the ignored regions
+  comparedPixels: number;
+  mismatchedPixels: number;
+  mismatchPercent: number;
+  // Set when the capture is not the baseline's size
+  sizeChange?: { from: [number, number]; to: [number, number] };
+  diff: Buffer;
+}
+
+export const VISUAL_MODES = ["capture", "update-baseline", "compare"] as const;
+export type VisualMode = (typeof VISUAL_MODES)[number];
+
+export interface VisualCheckResult {
+  // created = compare found no baseline and saved the capture as one
+  status: "updated" | "created" | "passed" | "failed";
+  baseline: string;
+  baselineFile: string;
+  maxMismatchPercent: number;
+  comparison?: ImageComparison;
+}
+
+// The file of a named baseline; a symlink in the directory cannot lead a name out of it
+export function baselinePath(name: string): string {
+  const { baselineDir } = config.screenshot;
+  const file = path.join(baselineDir, `${name}.png`);
+  if (!isInsideWorkspace(file, [baselineDir])) {
+    throw new ToolError("PATH_NOT_ALLOWED", `baseline "${name}" resolves outside screenshot.baselineDir`);
+  }
+  return file;
+}
+
+export function readBaseline(name: string): Buffer | undefined {
+  const file = baselinePath(name);
+  return fs.existsSync(file) ? fs.readFileSync(file) : undefined;
+}
+
+export function writeBaseline(name: string, image: Buffer): string {
+  const file = baselinePath(name);
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, image);
+  } catch (err: any) {
+    throw new ToolError("FILE_WRITE_FAILED", `Failed to save baseline ${file}: ${err.message}`);
+  }
+  return file;
+}
+
+function decode(image: Buffer, label: string): PNG {
+  try {
+    return PNG.sync.read(image);
+  } catch (err: any) {
+    throw new ToolError("INVALID_ARGUMENTS", `The ${label} is not a readable PNG: ${err.message}`);
+  }
+}
+
+// RGBA pixels of `image` on a transparent canvas of the given size
+function onCanvas(image: PNG, width: number, height: number): Buffer {
+  if (image.width === width && image.height === height) return image.data;
+  const canvas = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < image.height; y++) {
+    image.data.copy(canvas, y * width * 4, y * image.width * 4, (y + 1) * image.width * 4);
+  }
+  return canvas;
+}
+
+// Compare a capture with its baseline (both PNG)
+export function compareImages(
+  baselineImage: Buffer,
+  currentImage: Buffer,
+  options: { threshold: number; ignoreRegions: IgnoreRegion[] },
+): ImageComparison {
+  const baseline = decode(baselineImage, "baseline");
+  const current = decode(currentImage, "screenshot");
+  const width = Math.max(baseline.width, current.width);
+  const height = Math.max(baseline.height, current.height);
+  const before = onCanvas(baseline, width, height);
+  const after = onCanvas(current, width, height);
+
+  // Ignored pixels are made identical in both images, so they never count as a mismatch
+  let ignoredPixels = 0;
+  const ignored = new Uint8Array(width * height);
+  for (const region of options.ignoreRegions) {
+    for (let y = region.y; y < Math.min(region.y + region.height, height); y++) {
+      for (let x = region.x; x < Math.min(region.x + region.width, width); x++) {
+        const pixel = y * width + x;
+        if (ignored[pixel]) continue;
+        ignored[pixel] = 1;
+        ignoredPixels++;
+        before.copy(after, pixel * 4, pixel * 4, pixel * 4 + 4);
+      }
+    }
+  }
+
+  const diff = new PNG({ width, height });
+  const mismatchedPixels = pixelmatch(before, after, diff.data, width, height, { threshold: options.threshold });
+  const comparedPixels = width * height - ignoredPixels;
+  const sizeChanged = baseline.width !== current.width || baseline.height !== current.height;
+  return {
+    width,
+    height,
+    comparedPixels,
+    mismatchedPixels,
+    mismatchPercent: comparedPixels > 0 ? (mismatchedPixels / comparedPixels) * 100 : 0,
+    sizeChange: sizeChanged ? { from: [baseline.width, baseline.height], to: [current.width, current.height] } : undefined,
+    diff: PNG.sync.write(diff),
+  };
+}
+
+// Save the capture as the baseline, or compare it with the saved one
+export function checkBaseline(
+  mode: Exclude<VisualMode, "capture">,
+  name: string,
+  image: Buffer,
+  options: { threshold: number; maxMismatchPercent: number; ignoreRegions: IgnoreRegion[] },
+): VisualCheckResult {
+  const { maxMismatchPercent } = options;
+  const existing = mode === "compare" ? readBaseline(name) : undefined;
+  if (!existing) {
+    const baselineFile = writeBaseline(name, image);
+    return { status: mode === "compare" ? "created" : "updated", baseline: name, baselineFile, maxMismatchPercent };
+  }
+  const comparison = compareImages(existing, image, options);
+  const failed = comparison.mismatchPercent > maxMismatchPercent || comparison.sizeChange !== undefined;
+  return { status: failed ? "failed" : "passed", baseline: name, baselineFile: baselinePath(name), maxMismatchPercent, comparison };
+}
+
+// One line for the tool result
+export function describeVisualCheck(result: VisualCheckResult): string {
+  switch (result.status) {
+    case "updated":
+      return `Baseline "${result.baseline}" saved to ${result.baselineFile}.`;
+    case "created":
+      return `No baseline "${result.baseline}" yet; this capture was saved as the baseline (${result.baselineFile}).`;
+    case "passed":
+    case "failed": {
+      const comparison = result.comparison!;
+      const size = comparison.sizeChange
+        ? `; size changed from ${comparison.sizeChange.from.join("x")} to ${comparison.sizeChange.to.join("x")}`
+        : "";
+      return `Visual comparison with baseline "${result.baseline}" ${result.status}: `
+        + `${comparison.mismatchPercent.toFixed(2)}% of pixels differ (${comparison.mismatchedPixels}/${comparison.comparedPixels}`
+        + `, allowed ${result.maxMismatchPercent}%)${size}.`;
+    }
+  }
+}
@@ -0,0 +1,77 @@
+// src/utils/diff.test.ts
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { addedLineNumbers, createUnifiedDiff } from "./diff.js";
+
+describe("createUnifiedDiff", () => {
+  it("returns an empty string for equal texts", () => {
+    assert.equal(createUnifiedDiff("a.ts", "one\ntwo\n", "one\ntwo\n"), "");
+  });
+
+  it("diffs a new file against /dev/null", () => {
+    assert.equal(
+      createUnifiedDiff("a.ts", undefined, "one\ntwo\n"),
+      "--- /dev/null\n+++ b/a.ts\n@@ -0,0 +1,2 @@\n+one\n+two\n",
+    );
+  });
+
+  it("keeps three lines of context and merges nearby changes into one hunk", () => {
+    const before = ["1", "2", "3", "4", "5", "6", "7", "8", "9", "10"].join("\n") + "\n";
+    const after = ["1", "2", "three", "4", "5", "6", "seven", "8", "9", "10"].join("\n") + "\n";
+    assert.equal(
+      createUnifiedDiff("n.txt", before, after),
+      [
+        "--- a/n.txt",
+        "+++ b/n.txt",
+        "@@ -1,10 +1,10 @@",
+        " 1",
+        " 2",
+        "-3",
+        "+three",
+        " 4",
+        " 5",
+        " 6",
+        "-7",
+        "+seven",
+        " 8",
+        " 9",
+        " 10",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("splits changes further apart than two context windows into separate hunks", () => {
+    const lines = Array.from({ length: 20 }, (_, index) => String(index + 1));
+    const changed = lines.map((line) => (line === "2" || line === "19" ? `${line}!` : line));
+    const diff = createUnifiedDiff("n.txt", `${lines.join("\n")}\n`, `${changed.join("\n")}\n`);
+    assert.deepEqual(diff.split("\n").filter((line) => line.startsWith("@@")), ["@@ -1,5 +1,5 @@", "@@ -16,5 +16,5 @@"]);
+  });
+
+  it("marks a removed final newline", () => {
+    assert.equal(
+      createUnifiedDiff("a.ts", "one\ntwo\n", "one\ntwo"),
+      "--- a/a.ts\n+++ b/a.ts\n@@ -1,2 +1,2 @@\n one\n-two\n+two\n\\ No newline at end of file\n",
+    );
+  });
+
+  it("marks an added final newline", () => {
+    assert.equal(
+      createUnifiedDiff("a.ts", "one", "one\n"),
+      "--- a/a.ts\n+++ b/a.ts\n@@ -1,1 +1,1 @@\n-one\n\\ No newline at end of file\n+one\n",
+    );
+  });
+
+  it("marks a context line that has no final newline on either side", () => {
+    const diff = createUnifiedDiff("a.ts", "one\ntwo", "uno\ntwo");
+    assert.ok(diff.endsWith(" two\n\\ No newline at end of file\n"), diff);
+  });
+});
+
+describe("addedLineNumbers", () => {
+  it("numbers added lines in the new file", () => {
+    const diff = createUnifiedDiff("a.ts", "a\nb\nc\n", "a\nx\nb\nc\ny\n");
+    assert.deepEqual([...addedLineNumbers(diff)], [2, 5]);
+  });
+});
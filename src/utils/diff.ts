@@ -0,0 +1,186 @@
+// src/utils/diff.ts
+
+/**
+ * Unified diff helpers
+ *   - Split `git diff` output into per-file sections and hunks
+ *   - Line numbers are 1-based and refer to the new version of the file
+ *   - Create unified diffs between two texts (for previews of files about to be written), marking a missing
+ *     final newline the way `diff` and `patch` expect
+ */
+
+export interface DiffHunk {
+  // The `@@ -a,b +c,d @@` line
+  header: string;
+  newStart: number;
+  newLines: number;
+  lines: string[];
+}
+
+// Split a multi-file diff into per-file sections
+export function splitDiff(diff: string): { path: string; diff: string }[] {
+  return diff
+    .split(/^(?=diff --git )/m)
+    .filter((section) => section.startsWith("diff --git "))
+    .map((section) => {
+      const header = section.slice(0, section.indexOf("\n"));
+      const match = header.match(/^diff --git a\/.+? b\/(.+)$/);
+      return { path: match ? match[1] : header, diff: section };
+    });
+}
+
+// Parse one file's diff into its hunks (file header lines before the first hunk are skipped)
+export function parseHunks(fileDiff: string): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | undefined;
+
+  for (const line of fileDiff.split("\n")) {
+    const match = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+    if (match) {
+      current = {
+        header: line,
+        newStart: Number(match[1]),
+        newLines: match[2] === undefined ? 1 : Number(match[2]),
+        lines: [],
+      };
+      hunks.push(current);
+    } else if (current && line !== "") {
+      current.lines.push(line);
+    }
+  }
+  return hunks;
+}
+
+// Render a hunk with the new-file line number in front of each context and added line
+export function numberHunkLines(hunk: DiffHunk): string {
+  let lineNumber = hunk.newStart;
+  const rendered = hunk.lines.map((line) => {
+    if (line.startsWith("+") || line.startsWith(" ")) {
+      return `${String(lineNumber++).padStart(5)} ${line}`;
+    }
+    // Removed lines and markers such as "\ No newline at end of file" have no new line number
+    return `${"".padStart(5)} ${line}`;
+  });
+  return [hunk.header, ...rendered].join("\n");
+}
+
+// New-file line numbers of the lines a file's diff adds
+export function addedLineNumbers(fileDiff: string): Set<number> {
+  const added = new Set<number>();
+  for (const hunk of parseHunks(fileDiff)) {
+    let lineNumber = hunk.newStart;
+    for (const line of hunk.lines) {
+      if (line.startsWith("+")) added.add(lineNumber);
+      if (line.startsWith("+") || line.startsWith(" ")) lineNumber++;
+    }
+  }
+  return added;
+}
+
+// Above this many differing lines (after trimming common prefix/suffix) the diff is one whole-file hunk
+const MAX_DIFF_LINES = 5000;
+
+type EditOp = { kind: " " | "-" | "+"; line: string };
+
+// Line-level edit script from a longest-common-subsequence table
+function diffLines(oldLines: string[], newLines: string[]): EditOp[] {
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix && suffix < newLines.length - prefix
+    && oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) suffix++;
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix);
+  const b = newLines.slice(prefix, newLines.length - suffix);
+  const middle: EditOp[] = [];
+  if (a.length > MAX_DIFF_LINES || b.length > MAX_DIFF_LINES) {
+    middle.push(...a.map((line) => ({ kind: "-" as const, line })), ...b.map((line) => ({ kind: "+" as const, line })));
+  } else {
+    // lcs[i * (b.length + 1) + j] = LCS length of a[i..] and b[j..]
+    const width = b.length + 1;
+    const lcs = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i * width + j] = a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        middle.push({ kind: " ", line: a[i++] });
+        j++;
+      } else if (j < b.length && (i === a.length || lcs[i * width + j + 1] > lcs[(i + 1) * width + j])) {
+        middle.push({ kind: "+", line: b[j++] });
+      } else {
+        middle.push({ kind: "-", line: a[i++] });
+      }
+    }
+  }
+
+  return [
+    ...oldLines.slice(0, prefix).map((line) => ({ kind: " " as const, line })),
+    ...middle,
+    ...oldLines.slice(oldLines.length - suffix).map((line) => ({ kind: " " as const, line })),
+  ];
+}
+
+// Lines of a text; a last line without a newline keeps a trailing "\n" (which no real line contains), so it
+// never matches the same text with one
+function toLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  } else {
+    lines[lines.length - 1] += "\n";
+  }
+  return lines;
+}
+
+function renderOp(op: EditOp): string[] {
+  return op.line.endsWith("\n")
+    ? [`${op.kind}${op.line.slice(0, -1)}`, "\\ No newline at end of file"]
+    : [`${op.kind}${op.line}`];
+}
+
+// Unified diff from `oldText` (undefined for a new file) to `newText`, labelled with `fileName`; "" when equal
+export function createUnifiedDiff(fileName: string, oldText: string | undefined, newText: string, context = 3): string {
+  const ops = diffLines(toLines(oldText ?? ""), toLines(newText));
+  const changed = ops.map((op, index) => (op.kind === " " ? -1 : index)).filter((index) => index >= 0);
+  if (changed.length === 0) return "";
+
+  const header = [
+    oldText === undefined ? "--- /dev/null" : `--- a/${fileName}`,
+    `+++ b/${fileName}`,
+  ];
+  const hunks: string[] = [];
+  let start = 0;
+  while (start < changed.length) {
+    // Extend the hunk while the next change is within two context windows
+    let end = start;
+    while (end + 1 < changed.length && changed[end + 1] - changed[end] <= 2 * context + 1) end++;
+    const from = Math.max(0, changed[start] - context);
+    const to = Math.min(ops.length, changed[end] + context + 1);
+
+    let oldStart = 1;
+    let newStart = 1;
+    for (const op of ops.slice(0, from)) {
+      if (op.kind !== "+") oldStart++;
+      if (op.kind !== "-") newStart++;
+    }
+    const slice = ops.slice(from, to);
+    const oldCount = slice.filter((op) => op.kind !== "+").length;
+    const newCount = slice.filter((op) => op.kind !== "-").length;
+    // An empty range starts at the line before it, as in GNU diff
+    hunks.push(
+      `@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@`,
+      ...slice.flatMap(renderOp),
+    );
+    start = end + 1;
+  }
+  return [...header, ...hunks].join("\n") + "\n";
+}
@@ -0,0 +1,77 @@
+// src/utils/git.ts
+
+import { execFile } from "child_process";
+import { promisify } from "util";
+
+/**
+ * Git helpers
+ *   - git is always run without a shell, with arguments passed as an array
+ *   - Repository config that would run commands on read-only operations (core.fsmonitor) is overridden
+ */
+
+const execFilePromise = promisify(execFile);
+
+// Thrown when git exits with an unexpected status
+export class GitError extends Error {
+  constructor(
+    message: string,
+    public readonly exitCode: number | undefined,
+    public readonly stderr: string,
+  ) {
+    super(message);
+    this.name = "GitError";
+  }
+}
+
+export interface RunGitOptions {
+  // Exit codes treated as success (e.g. `git diff --no-index` exits 1 when files differ)
+  okExitCodes?: number[];
+  maxBuffer?: number;
+}
+
+// Run `git -C <cwd> <args...>` and return stdout (callers still pass --no-ext-diff/--no-textconv and explicit
+// --src-prefix/--dst-prefix to diffs)
+export async function runGit(cwd: string, args: string[], options: RunGitOptions = {}): Promise<string> {
+  const { okExitCodes = [0], maxBuffer = 64 * 1024 * 1024 } = options;
+  try {
+    const { stdout } = await execFilePromise("git", ["-c", "core.fsmonitor=false", "-C", cwd, ...args], {
+      encoding: "utf-8",
+      maxBuffer,
+    });
+    return stdout;
+  } catch (error: any) {
+    if (typeof error.code === "number" && okExitCodes.includes(error.code)) {
+      return error.stdout ?? "";
+    }
+    const stderr = error.stderr?.toString().trim() ?? "";
+    throw new GitError(
+      `git ${args[0]} failed: ${stderr.split("\n")[0] || error.message}`,
+      typeof error.code === "number" ? error.code : undefined,
+      stderr,
+    );
+  }
+}
+
+// Resolve a ref to a commit SHA, or undefined when it does not exist
+export async function resolveRef(cwd: string, ref: string): Promise<string | undefined> {
+  try {
+    return (await runGit(cwd, ["rev-parse", "--verify", "--quiet", `${ref}^{commit}`])).trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Find the repository's main branch: origin/HEAD, then origin/main, origin/master, main, master
+export async function findMainBranch(cwd: string): Promise<string | undefined> {
+  for (const candidate of ["origin/HEAD", "origin/main", "origin/master", "main", "master"]) {
+    if (await resolveRef(cwd, candidate)) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+// Absolute path of the repository's top-level directory
+export async function findRepoRoot(cwd: string): Promise<string> {
+  return (await runGit(cwd, ["rev-parse", "--show-toplevel"])).trim();
+}
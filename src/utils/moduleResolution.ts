@@ -0,0 +1,168 @@
+// src/utils/moduleResolution.ts
+
+import fs from "fs";
+import path from "path";
+import ts from "typescript";
+
+/**
+ * Module resolution for source analysis
+ *   - Resolves relative import specifiers to source files the way bundlers and tsc do:
+ *     extensionless imports, directory index files, and ESM ".js" specifiers pointing at ".ts" sources
+ *   - Honors `paths` and `baseUrl` from the nearest tsconfig.json / jsconfig.json (including `extends`)
+ *   - Walks the import graph breadth-first to a given depth
+ */
+
+export const SOURCE_EXTENSIONS = [".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"];
+
+function isFile(candidate: string): boolean {
+  try {
+    return fs.statSync(candidate).isFile();
+  } catch {
+    return false;
+  }
+}
+
+// Resolve an absolute path without extension (or with a JS extension) to an existing source file
+export function resolveSourcePath(target: string): string | undefined {
+  if (SOURCE_EXTENSIONS.includes(path.extname(target)) && isFile(target)) {
+    return target;
+  }
+  // "./user.js" in TypeScript ESM code refers to "./user.ts"
+  const withoutJsExtension = target.replace(/\.(?:[cm]?js|jsx)$/, "");
+  for (const base of new Set([target, withoutJsExtension])) {
+    for (const extension of SOURCE_EXTENSIONS) {
+      if (isFile(`${base}${extension}`)) return `${base}${extension}`;
+    }
+  }
+  for (const extension of SOURCE_EXTENSIONS) {
+    const index = path.join(target, `index${extension}`);
+    if (isFile(index)) return index;
+  }
+  return undefined;
+}
+
+// Resolve a relative specifier ("./users", "../lib/db.js") imported from `fromFile`; bare specifiers are not resolved
+export function resolveRelativeImport(fromFile: string, specifier: string): string | undefined {
+  if (!specifier.startsWith(".")) return undefined;
+  return resolveSourcePath(path.resolve(path.dirname(fromFile), specifier));
+}
+
+// Source files under a directory, skipping dependencies and build output
+export function listSourceFiles(root: string, limit = 5000): string[] {
+  const skip = new Set(["node_modules", ".git", "dist", "build", "coverage", ".next", ".turbo", "out"]);
+  const files: string[] = [];
+  const stack = [root];
+  while (stack.length > 0 && files.length < limit) {
+    const dir = stack.pop()!;
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      continue;
+    }
+    for (const entry of entries) {
+      if (entry.isDirectory()) {
+        if (!skip.has(entry.name) && !entry.name.startsWith(".")) stack.push(path.join(dir, entry.name));
+      } else if (SOURCE_EXTENSIONS.includes(path.extname(entry.name)) && !entry.name.endsWith(".d.ts")) {
+        files.push(path.join(dir, entry.name));
+      }
+    }
+  }
+  return files;
+}
+
+// Options used when no tsconfig.json / jsconfig.json applies
+const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = {
+  moduleResolution: ts.ModuleResolutionKind.Node10,
+  allowJs: true,
+};
+
+// Parsed compiler options per config file, invalidated when the file changes
+const compilerOptionsCache = new Map<string, { mtimeMs: number; options: ts.CompilerOptions }>();
+
+// The nearest tsconfig.json or jsconfig.json above `fromFile`
+function findConfigFile(fromFile: string): string | undefined {
+  let dir = path.dirname(fromFile);
+  while (true) {
+    for (const name of ["tsconfig.json", "jsconfig.json"]) {
+      if (isFile(path.join(dir, name))) return path.join(dir, name);
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+function compilerOptionsFor(fromFile: string): ts.CompilerOptions {
+  const configFile = findConfigFile(fromFile);
+  if (!configFile) return DEFAULT_COMPILER_OPTIONS;
+
+  const mtimeMs = fs.statSync(configFile).mtimeMs;
+  const cached = compilerOptionsCache.get(configFile);
+  if (cached && cached.mtimeMs === mtimeMs) return cached.options;
+
+  const { config, error } = ts.readConfigFile(configFile, ts.sys.readFile);
+  // Only the options matter; an empty readDirectory keeps `include` from scanning the project
+  const host: ts.ParseConfigHost = { ...ts.sys, readDirectory: () => [] };
+  const parsed = error ? undefined : ts.parseJsonConfigFileContent(config, host, path.dirname(configFile), undefined, configFile);
+  const options = { ...DEFAULT_COMPILER_OPTIONS, ...parsed?.options, allowJs: true };
+  compilerOptionsCache.set(configFile, { mtimeMs, options });
+  return options;
+}
+
+// Resolve any import specifier to a project source file: relative imports, tsconfig `paths` aliases and
+// `baseUrl` imports. Packages (node_modules) and declaration files are not resolved.
+export function resolveImport(fromFile: string, specifier: string): string | undefined {
+  const relative = resolveRelativeImport(fromFile, specifier);
+  if (relative || specifier.startsWith(".")) return relative;
+
+  const options = compilerOptionsFor(fromFile);
+  if (!options.paths && !options.baseUrl) return undefined;
+  const { resolvedModule } = ts.resolveModuleName(specifier, fromFile, options, ts.sys);
+  if (!resolvedModule || resolvedModule.isExternalLibraryImport || /\.d\.[cm]?ts$/.test(resolvedModule.resolvedFileName)) {
+    return undefined;
+  }
+  return path.resolve(resolvedModule.resolvedFileName);
+}
+
+// Project files imported by `file` (static imports, re-exports, require() and import())
+export function listImports(file: string): string[] {
+  let text: string;
+  try {
+    text = fs.readFileSync(file, "utf-8");
+  } catch {
+    return [];
+  }
+  const imports = new Set<string>();
+  for (const { fileName } of ts.preProcessFile(text, true, true).importedFiles) {
+    const resolved = resolveImport(file, fileName);
+    if (resolved && resolved !== file) imports.add(resolved);
+  }
+  return [...imports];
+}
+
+export interface ImportGraphNode {
+  file: string;
+  // Number of import hops from the entry file (0 for the entry itself)
+  depth: number;
+}
+
+// Files reachable from `entry` within `maxDepth` import hops, nearest first; `include` prunes the walk
+export function walkImportGraph(
+  entry: string,
+  maxDepth: number,
+  include: (file: string) => boolean = () => true,
+): ImportGraphNode[] {
+  const nodes: ImportGraphNode[] = [{ file: entry, depth: 0 }];
+  const seen = new Set([entry]);
+  for (let index = 0; index < nodes.length; index++) {
+    const { file, depth } = nodes[index];
+    if (depth >= maxDepth) continue;
+    for (const imported of listImports(file)) {
+      if (seen.has(imported) || !include(imported)) continue;
+      seen.add(imported);
+      nodes.push({ file: imported, depth: depth + 1 });
+    }
+  }
+  return nodes;
+}
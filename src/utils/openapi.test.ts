@@ -0,0 +1,130 @@
+// src/utils/openapi.test.ts
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { OpenApiError, parseOpenApiDocument, parseOpenApiText } from "./openapi.js";
+
+const USER_SCHEMA = { type: "object", properties: { id: { type: "integer" }, name: { type: "string" } }, required: ["id"] };
+
+describe("OpenAPI $ref resolution", () => {
+  let dir: string;
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-openapi-test-"));
+  });
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("resolves local refs to components, parameters and responses", () => {
+    const spec = parseOpenApiDocument({
+      openapi: "3.0.3",
+      info: { title: "Users", version: "1.0.0" },
+      paths: {
+        "/users/{id}": {
+          parameters: [{ $ref: "#/components/parameters/UserId" }],
+          get: { responses: { 200: { $ref: "#/components/responses/User" } } },
+          put: {
+            requestBody: { required: true, content: { "application/json": { schema: { $ref: "#/components/schemas/User" } } } },
+            responses: { 204: { description: "Updated" } },
+          },
+        },
+      },
+      components: {
+        schemas: { User: USER_SCHEMA },
+        parameters: { UserId: { name: "id", in: "path", required: true, schema: { type: "integer" } } },
+        responses: { User: { description: "A user", content: { "application/json": { schema: { $ref: "#/components/schemas/User" } } } } },
+      },
+    });
+
+    const [get, put] = spec.operations;
+    assert.deepEqual(get.parameters, [{ name: "id", in: "path", required: true, description: undefined, schema: { type: "integer" } }]);
+    assert.deepEqual(get.responses[0], { status: "200", description: "A user", contentType: "application/json", schema: USER_SCHEMA });
+    assert.deepEqual(put.requestBody, { contentType: "application/json", required: true, schema: USER_SCHEMA });
+  });
+
+  it("decodes escaped pointer segments", () => {
+    const spec = parseOpenApiDocument({
+      openapi: "3.0.0",
+      paths: {
+        "/a/b": { get: { responses: { 200: { description: "ok", content: { "application/json": { schema: { $ref: "#/x-shared/~1a~1b/schema" } } } } } } },
+      },
+      "x-shared": { "/a/b": { schema: { type: "string" } } },
+    });
+    assert.deepEqual(spec.operations[0].responses[0].schema, { type: "string" });
+  });
+
+  it("follows refs into other files next to the spec", () => {
+    fs.mkdirSync(path.join(dir, "schemas"), { recursive: true });
+    fs.writeFileSync(path.join(dir, "schemas", "user.yaml"), "User:\n  type: object\n  properties:\n    team:\n      $ref: './team.json#/Team'\n");
+    fs.writeFileSync(path.join(dir, "schemas", "team.json"), JSON.stringify({ Team: { type: "string" } }));
+    const specFile = path.join(dir, "openapi.yaml");
+    const text = [
+      "openapi: 3.1.0",
+      "paths:",
+      "  /users:",
+      "    get:",
+      "      responses:",
+      "        '200':",
+      "          description: Users",
+      "          content:",
+      "            application/json:",
+      "              schema:",
+      "                $ref: './schemas/user.yaml#/User'",
+    ].join("\n");
+    const spec = parseOpenApiText(text, specFile);
+    assert.deepEqual(spec?.operations[0].responses[0].schema, { type: "object", properties: { team: { type: "string" } } });
+  });
+
+  it("cuts circular refs and marks them", () => {
+    const spec = parseOpenApiDocument({
+      openapi: "3.0.0",
+      paths: { "/nodes": { get: { responses: { 200: { description: "ok", content: { "application/json": { schema: { $ref: "#/components/schemas/Node" } } } } } } } },
+      components: { schemas: { Node: { type: "object", properties: { children: { type: "array", items: { $ref: "#/components/schemas/Node" } } } } } },
+    });
+    const schema = spec.operations[0].responses[0].schema as { properties: { children: { items: unknown } } };
+    assert.deepEqual(schema.properties.children.items, { $ref: "#/components/schemas/Node", "x-circular": true });
+  });
+
+  it("lets keywords next to a $ref override the target", () => {
+    const spec = parseOpenApiDocument({
+      openapi: "3.1.0",
+      paths: {
+        "/users": { post: { responses: { 201: { description: "ok", content: { "application/json": { schema: { $ref: "#/components/schemas/User", description: "The new user" } } } } } } },
+      },
+      components: { schemas: { User: { type: "object", description: "A user" } } },
+    });
+    assert.deepEqual(spec.operations[0].responses[0].schema, { type: "object", description: "The new user" });
+  });
+
+  it("rejects unresolvable, remote and file refs of an inline spec", () => {
+    const withRef = ($ref: string) => ({
+      openapi: "3.0.0",
+      paths: { "/x": { get: { responses: { 200: { $ref } } } } },
+    });
+    assert.throws(() => parseOpenApiDocument(withRef("#/components/responses/Missing")), (error: unknown) => {
+      assert.ok(error instanceof OpenApiError);
+      assert.match(error.message, /Unresolvable \$ref/);
+      return true;
+    });
+    assert.throws(() => parseOpenApiDocument(withRef("https://example.com/spec.json#/x")), /Remote \$refs are not supported/);
+    assert.throws(() => parseOpenApiDocument(withRef("./other.yaml#/x")), /needs the spec to be given as a file path/);
+    assert.throws(() => parseOpenApiDocument(withRef("./missing.yaml#/x"), path.join(dir, "spec.yaml")), /\$ref target not found/);
+    // Only the document's own keys resolve, not inherited object properties
+    assert.throws(() => parseOpenApiDocument(withRef("#/paths/constructor")), /Unresolvable \$ref/);
+  });
+
+  it("rejects malformed percent-encoding in a pointer", () => {
+    const spec = {
+      openapi: "3.0.0",
+      paths: { "/x": { get: { responses: { 200: { $ref: "#/components/responses/%E0%A4%A" } } } } },
+    };
+    assert.throws(() => parseOpenApiDocument(spec), (error: unknown) => {
+      assert.ok(error instanceof OpenApiError);
+      assert.match(error.message, /Malformed \$ref pointer: #\/components\/responses\/%E0%A4%A/);
+      return true;
+    });
+  });
+});
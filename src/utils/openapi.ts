@@ -0,0 +1,400 @@
+// src/utils/openapi.ts
+
+import fs from "fs";
+import path from "path";
+import YAML from "yaml";
+import { isInsideWorkspace } from "./workspace.js";
+
+/**
+ * OpenAPI helpers
+ *   - Detects and parses OpenAPI 3.x and Swagger 2.0 documents (JSON or YAML)
+ *   - Resolves $refs, local and to other files next to the spec (circular refs are cut and marked)
+ *   - Flattens the document into a typed list of operations
+ */
+
+export const HTTP_METHODS = ["GET", "PUT", "POST", "DELETE", "OPTIONS", "HEAD", "PATCH", "TRACE"] as const;
+export type HttpMethod = (typeof HTTP_METHODS)[number];
+
+// JSON Schema as found in the document, with $refs resolved
+export type JsonSchema = Record<string, unknown>;
+
+export interface ApiParameter {
+  name: string;
+  in: "path" | "query" | "header" | "cookie";
+  required: boolean;
+  description?: string;
+  schema?: JsonSchema;
+}
+
+export interface ApiRequestBody {
+  contentType: string;
+  required: boolean;
+  schema?: JsonSchema;
+}
+
+export interface ApiResponse {
+  // "200", "4XX", "default", ...
+  status: string;
+  description?: string;
+  contentType?: string;
+  schema?: JsonSchema;
+}
+
+export interface ApiOperation {
+  method: HttpMethod;
+  path: string;
+  operationId?: string;
+  summary?: string;
+  tags: string[];
+  parameters: ApiParameter[];
+  requestBody?: ApiRequestBody;
+  responses: ApiResponse[];
+  // Whether the operation requires any security scheme
+  secured: boolean;
+}
+
+export interface ApiSpec {
+  format: "openapi-3" | "swagger-2";
+  // The document's own `openapi` / `swagger` field
+  specVersion: string;
+  title?: string;
+  version?: string;
+  servers: string[];
+  operations: ApiOperation[];
+}
+
+// Thrown when a document looks like OpenAPI but cannot be used
+export class OpenApiError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OpenApiError";
+  }
+}
+
+type Node = Record<string, unknown>;
+
+// A JSON/YAML object (not an array)
+function isNode(value: unknown): value is Node {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function asNode(value: unknown): Node | undefined {
+  return isNode(value) ? value : undefined;
+}
+
+// The objects in an array value; anything else is skipped
+function nodes(value: unknown): Node[] {
+  return Array.isArray(value) ? value.filter(isNode) : [];
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+function asStrings(value: unknown): string[] | undefined {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : undefined;
+}
+
+// Parse JSON or YAML text; undefined when it is neither (e.g. source code)
+function parseDocument(text: string): unknown {
+  const trimmed = text.trim();
+  try {
+    return trimmed.startsWith("{") ? JSON.parse(trimmed) : YAML.parse(trimmed);
+  } catch {
+    return undefined;
+  }
+}
+
+function isSpecDocument(document: unknown): document is Node {
+  if (!isNode(document)) return false;
+  const { openapi, swagger } = document;
+  return (typeof openapi === "string" && openapi.startsWith("3.")) || String(swagger) === "2.0";
+}
+
+// Decode a JSON pointer ("#/components/schemas/User") into path segments
+function pointerSegments(pointer: string): string[] {
+  return pointer
+    .replace(/^#?\/?/, "")
+    .split("/")
+    .filter((segment) => segment !== "")
+    .map((segment) => {
+      try {
+        return decodeURIComponent(segment).replace(/~1/g, "/").replace(/~0/g, "~");
+      } catch {
+        // A stray "%" that is not a percent-encoded byte
+        throw new OpenApiError(`Malformed $ref pointer: #${pointer}`);
+      }
+    });
+}
+
+// Resolves $refs within a document and across files next to it
+class RefResolver {
+  private readonly documents = new Map<string, unknown>();
+  private readonly resolved = new Map<string, unknown>();
+
+  constructor(root: unknown, private readonly rootFile: string) {
+    this.documents.set(rootFile, root);
+  }
+
+  private loadDocument(file: string): unknown {
+    if (!this.documents.has(file)) {
+      if (!isInsideWorkspace(file)) {
+        throw new OpenApiError(`$ref points outside the workspace: ${file}`);
+      }
+      let text: string;
+      try {
+        text = fs.readFileSync(file, "utf-8");
+      } catch {
+        throw new OpenApiError(`$ref target not found: ${file}`);
+      }
+      const document = parseDocument(text);
+      if (document === undefined) {
+        throw new OpenApiError(`$ref target is not valid JSON or YAML: ${file}`);
+      }
+      this.documents.set(file, document);
+    }
+    return this.documents.get(file);
+  }
+
+  private lookup(ref: string, fromFile: string): { file: string; target: unknown } {
+    const [filePart, pointer = ""] = ref.split("#");
+    if (filePart && /^[a-z]+:\/\//i.test(filePart)) {
+      throw new OpenApiError(`Remote $refs are not supported: ${ref}`);
+    }
+    if (filePart && !path.isAbsolute(fromFile)) {
+      throw new OpenApiError(`$ref to another file needs the spec to be given as a file path: ${ref}`);
+    }
+    const file = filePart ? path.resolve(path.dirname(fromFile), filePart) : fromFile;
+    let target: unknown = this.loadDocument(file);
+    for (const segment of pointerSegments(pointer)) {
+      if (Array.isArray(target)) {
+        target = /^\d+$/.test(segment) ? target[Number(segment)] : undefined;
+      } else {
+        target = isNode(target) && Object.hasOwn(target, segment) ? target[segment] : undefined;
+      }
+    }
+    if (target === undefined) {
+      throw new OpenApiError(`Unresolvable $ref: ${ref}`);
+    }
+    return { file, target };
+  }
+
+  // Return a copy of `node` with every $ref replaced by its target
+  resolve(node: unknown, file: string = this.rootFile, stack: string[] = []): unknown {
+    if (Array.isArray(node)) {
+      return node.map((item) => this.resolve(item, file, stack));
+    }
+    if (!isNode(node)) {
+      return node;
+    }
+
+    const { $ref, ...siblings } = node;
+    if (typeof $ref === "string") {
+      const { file: targetFile, target } = this.lookup($ref, file);
+      const key = `${targetFile}#${$ref.split("#")[1] ?? ""}`;
+      if (stack.includes(key)) {
+        // Circular reference: keep the $ref so the structure stays finite
+        return { $ref, "x-circular": true };
+      }
+      if (!this.resolved.has(key)) {
+        this.resolved.set(key, this.resolve(target, targetFile, [...stack, key]));
+      }
+      const resolvedTarget = this.resolved.get(key);
+      // OpenAPI 3.1 allows keywords next to $ref (e.g. description); they override the target's
+      if (Object.keys(siblings).length === 0 || !isNode(resolvedTarget)) {
+        return resolvedTarget;
+      }
+      return { ...resolvedTarget, ...asNode(this.resolve(siblings, file, stack)) };
+    }
+
+    return Object.fromEntries(
+      Object.entries(node).map(([key, value]) => [key, this.resolve(value, file, stack)]),
+    );
+  }
+}
+
+// Prefer JSON when an operation offers several media types
+function pickContent(content: unknown): { contentType: string; schema?: JsonSchema } | undefined {
+  if (!isNode(content)) return undefined;
+  const types = Object.keys(content);
+  if (types.length === 0) return undefined;
+  const contentType = types.find((type) => /json/i.test(type)) ?? types[0];
+  return { contentType, schema: asNode(asNode(content[contentType])?.schema) };
+}
+
+// Merge path-level and operation-level parameters (operation wins on the same name + location)
+function mergeParameters(pathLevel: unknown, operationLevel: unknown): Node[] {
+  const merged = new Map<string, Node>();
+  for (const parameter of [...nodes(pathLevel), ...nodes(operationLevel)]) {
+    merged.set(`${parameter.in}:${parameter.name}`, parameter);
+  }
+  return [...merged.values()];
+}
+
+const PARAMETER_LOCATIONS = ["path", "query", "header", "cookie"] as const;
+
+function isParameterLocation(value: unknown): value is ApiParameter["in"] {
+  return PARAMETER_LOCATIONS.some((location) => location === value);
+}
+
+function parameterSchema(parameter: Node, format: ApiSpec["format"]): JsonSchema | undefined {
+  // Swagger 2.0 puts the schema keywords (type, format, enum, ...) directly on the parameter
+  return format === "swagger-2"
+    ? Object.fromEntries(Object.entries(parameter).filter(([key]) => !["name", "in", "required", "description"].includes(key)))
+    : asNode(parameter.schema);
+}
+
+// undefined for a parameter without a name or with an unknown location
+function toParameter(parameter: Node, format: ApiSpec["format"]): ApiParameter | undefined {
+  const { name, in: location } = parameter;
+  if (typeof name !== "string" || !isParameterLocation(location)) return undefined;
+  return {
+    name,
+    in: location,
+    required: location === "path" || parameter.required === true,
+    description: asString(parameter.description),
+    schema: parameterSchema(parameter, format),
+  };
+}
+
+function toOperation(
+  document: Node,
+  format: ApiSpec["format"],
+  method: HttpMethod,
+  apiPath: string,
+  pathItem: Node,
+  operation: Node,
+): ApiOperation {
+  const allParameters = mergeParameters(pathItem.parameters, operation.parameters);
+  let requestBody: ApiRequestBody | undefined;
+  let parameters: Node[] = allParameters;
+
+  if (format === "swagger-2") {
+    // Body and form parameters become the request body
+    const consumes = asStrings(operation.consumes) ?? asStrings(document.consumes) ?? ["application/json"];
+    const body = allParameters.find((parameter) => parameter.in === "body");
+    const formData = allParameters.filter((parameter) => parameter.in === "formData");
+    if (body) {
+      requestBody = { contentType: consumes.find((type) => /json/i.test(type)) ?? consumes[0], required: body.required === true, schema: asNode(body.schema) };
+    } else if (formData.length > 0) {
+      requestBody = {
+        contentType: consumes.find((type) => /form/i.test(type)) ?? "application/x-www-form-urlencoded",
+        required: formData.some((parameter) => parameter.required === true),
+        schema: {
+          type: "object",
+          properties: Object.fromEntries(formData.map((parameter) => [String(parameter.name), parameterSchema(parameter, format)])),
+          required: formData.filter((parameter) => parameter.required === true).map((parameter) => String(parameter.name)),
+        },
+      };
+    }
+    parameters = allParameters.filter((parameter) => parameter.in !== "body" && parameter.in !== "formData");
+  } else {
+    const body = asNode(operation.requestBody);
+    const content = pickContent(body?.content);
+    if (body && content) {
+      requestBody = { ...content, required: body.required === true };
+    }
+  }
+
+  const produces = asStrings(operation.produces) ?? asStrings(document.produces) ?? ["application/json"];
+  const responses = Object.entries(asNode(operation.responses) ?? {}).map(([status, value]): ApiResponse => {
+    const response = asNode(value);
+    const description = asString(response?.description);
+    if (format === "swagger-2") {
+      const schema = asNode(response?.schema);
+      return {
+        status,
+        description,
+        ...(schema ? { contentType: produces.find((type) => /json/i.test(type)) ?? produces[0], schema } : {}),
+      };
+    }
+    return { status, description, ...pickContent(response?.content) };
+  });
+
+  const security = Array.isArray(operation.security) ? operation.security : Array.isArray(document.security) ? document.security : [];
+  return {
+    method,
+    path: apiPath,
+    operationId: asString(operation.operationId),
+    summary: asString(operation.summary) ?? asString(operation.description),
+    tags: asStrings(operation.tags) ?? [],
+    parameters: parameters.flatMap((parameter) => toParameter(parameter, format) ?? []),
+    requestBody,
+    responses,
+    // An empty requirement object ({}) means the security is optional
+    secured: security.length > 0 && !security.some((requirement) => isNode(requirement) && Object.keys(requirement).length === 0),
+  };
+}
+
+// Build the operation list from a parsed document
+export function parseOpenApiDocument(document: unknown, sourceFile?: string): ApiSpec {
+  if (!isSpecDocument(document)) {
+    throw new OpenApiError("Not an OpenAPI 3.x or Swagger 2.0 document");
+  }
+  const format: ApiSpec["format"] = document.openapi ? "openapi-3" : "swagger-2";
+  // The root is an object, so resolving its $refs gives an object again
+  const resolved = asNode(new RefResolver(document, sourceFile ?? "<inline>").resolve(document)) ?? {};
+
+  const operations: ApiOperation[] = [];
+  for (const [apiPath, value] of Object.entries(asNode(resolved.paths) ?? {})) {
+    const pathItem = asNode(value);
+    if (!pathItem) continue;
+    for (const method of HTTP_METHODS) {
+      const operation = asNode(pathItem[method.toLowerCase()]);
+      if (operation) {
+        operations.push(toOperation(resolved, format, method, apiPath, pathItem, operation));
+      }
+    }
+  }
+
+  const host = asString(resolved.host);
+  const basePath = asString(resolved.basePath) ?? "";
+  const servers = format === "openapi-3"
+    ? nodes(resolved.servers).flatMap((server) => asString(server.url) || [])
+    : host
+      ? (asStrings(resolved.schemes) ?? ["https"]).map((scheme) => `${scheme}://${host}${basePath}`)
+      : basePath ? [basePath] : [];
+
+  const info = asNode(resolved.info);
+  return {
+    format,
+    specVersion: String(resolved.openapi ?? resolved.swagger),
+    title: asString(info?.title),
+    version: asString(info?.version),
+    servers,
+    operations,
+  };
+}
+
+// Parse `text` as an OpenAPI document; undefined when it is not one (e.g. it is API source code)
+export function parseOpenApiText(text: string, sourceFile?: string): ApiSpec | undefined {
+  const document = parseDocument(text);
+  return isSpecDocument(document) ? parseOpenApiDocument(document, sourceFile) : undefined;
+}
+
+// Normalize a route for comparison: Express-style ":id" becomes "{id}", trailing slashes are dropped
+function normalizeRoute(route: string): string {
+  return route
+    .trim()
+    .replace(/:([A-Za-z_][\w]*)/g, "{$1}")
+    .replace(/\{[^}]+\}/g, "{}")
+    .replace(/\/+$/, "")
+    .toLowerCase() || "/";
+}
+
+// Whether an `endpoints` entry ("/users/{id}", "GET /users/:id" or an operationId) selects an operation or route
+export function matchesEndpoint(operation: { method: string; path: string; operationId?: string }, endpoint: string): boolean {
+  if (operation.operationId === endpoint.trim()) return true;
+  const match = endpoint.trim().match(/^([A-Za-z]+)\s+(\S+)$/);
+  if (match) {
+    // Routes registered for ALL methods (app.all, pages/api handlers) match any method
+    return (match[1].toUpperCase() === operation.method || operation.method === "ALL")
+      && normalizeRoute(match[2]) === normalizeRoute(operation.path);
+  }
+  return normalizeRoute(endpoint) === normalizeRoute(operation.path);
+}
+
+// One-line label for an operation
+export function describeOperation(operation: ApiOperation): string {
+  return `${operation.method} ${operation.path}${operation.operationId ? ` (${operation.operationId})` : ""}`;
+}
@@ -0,0 +1,119 @@
+// src/utils/routes.test.ts
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { extractRoutes } from "./routes.js";
+
+describe("extractRoutes", () => {
+  let dir: string;
+  // Write files relative to the temporary project and return the absolute path of the first
+  const write = (files: Record<string, string>): string => {
+    for (const [file, content] of Object.entries(files)) {
+      fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+      fs.writeFileSync(path.join(dir, file), content);
+    }
+    return path.join(dir, Object.keys(files)[0]);
+  };
+
+  before(() => {
+    dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "mcp-routes-test-")));
+  });
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reads Express routes with their middleware, validators and handlers", async () => {
+    const file = write({
+      "express/users.ts": [
+        'import { Router } from "express";',
+        "const router = Router();",
+        "function getUser(req, res) { res.json({ id: req.params.id }); }",
+        'router.get("/users/:id", auth, getUser);',
+        'router.post("/users", validateBody(UserSchema), (req, res) => res.status(201).end());',
+        'router.route("/users/:id/avatar").put(getUser).delete(getUser);',
+        "export default router;",
+      ].join("\n"),
+    });
+    const routes = await extractRoutes(file);
+    assert.deepEqual(routes.map((route) => `${route.method} ${route.path}`).sort(), [
+      "DELETE /users/:id/avatar",
+      "GET /users/:id",
+      "POST /users",
+      "PUT /users/:id/avatar",
+    ]);
+    assert.equal(routes[0].framework, "express");
+    assert.deepEqual(routes[0].middleware, ["auth"]);
+    assert.equal(routes[0].handler?.name, "getUser");
+    assert.match(routes[0].handler?.source ?? "", /function getUser/);
+    assert.deepEqual(routes[1].validators, ["validateBody(UserSchema)"]);
+  });
+
+  it("joins mount prefixes from the files that import a router", async () => {
+    const users = write({
+      "mounted/src/routes/users.ts": 'import { Router } from "express";\nconst router = Router();\nrouter.get("/:id", (req, res) => res.end());\nexport default router;\n',
+      "mounted/src/routes/index.ts": 'import { Router } from "express";\nimport users from "./users";\nconst api = Router();\napi.use("/users", users);\nexport default api;\n',
+      "mounted/src/server.ts": 'import express from "express";\nimport api from "./routes/index";\nconst app = express();\napp.use("/v1", api);\n',
+    });
+    const routes = await extractRoutes(users, { projectRoot: path.join(dir, "mounted") });
+    assert.deepEqual(routes.map((route) => `${route.method} ${route.path}`), ["GET /v1/users/:id"]);
+    assert.equal(routes[0].file, users);
+
+    // Without projectRoot only the file itself is analyzed
+    const unmounted = await extractRoutes(users);
+    assert.deepEqual(unmounted.map((route) => route.path), ["/:id"]);
+  });
+
+  it("never reads files the include filter rejects", async () => {
+    const file = write({
+      "sandbox/app/orders.ts": 'import { Router } from "express";\nimport { listOrders } from "../../outside/handlers";\nconst router = Router();\nrouter.get("/orders", listOrders);\nexport default router;\n',
+      "outside/handlers.ts": 'export function listOrders(req, res) { res.send("SECRET"); }\n',
+      "sandbox/app/server.ts": 'import express from "express";\nimport orders from "./orders";\nconst app = express();\napp.use("/api", orders);\n',
+    });
+    const include = (candidate: string) => candidate.startsWith(path.join(dir, "sandbox") + path.sep);
+
+    const routes = await extractRoutes(file, { projectRoot: path.join(dir, "sandbox"), include });
+    assert.deepEqual(routes.map((route) => `${route.method} ${route.path}`), ["GET /api/orders"]);
+    assert.equal(routes[0].handler?.file, path.join(dir, "outside/handlers.ts"));
+    assert.equal(routes[0].handler?.source, undefined);
+
+    // The mounting file is skipped as well when it is outside the filter
+    const onlyOrders = await extractRoutes(file, { projectRoot: path.join(dir, "sandbox"), include: (candidate) => candidate === file });
+    assert.deepEqual(onlyOrders.map((route) => route.path), ["/orders"]);
+  });
+
+  it("reads Fastify routes and register prefixes", async () => {
+    const file = write({
+      "fastify/app.ts": [
+        'import Fastify from "fastify";',
+        "const fastify = Fastify();",
+        'fastify.get("/health", async () => ({ ok: true }));',
+        'fastify.route({ method: ["POST", "PUT"], url: "/items", schema: { body: ItemSchema }, handler: saveItem });',
+        "async function plugin(instance) {",
+        '  instance.delete("/:id", async () => undefined);',
+        "}",
+        'fastify.register(plugin, { prefix: "/items" });',
+      ].join("\n"),
+    });
+    const routes = await extractRoutes(file);
+    assert.deepEqual(routes.map((route) => `${route.method} ${route.path}`), [
+      "GET /health",
+      "POST /items",
+      "PUT /items",
+      "DELETE /items/:id",
+    ]);
+    assert.equal(routes[0].framework, "fastify");
+    assert.deepEqual(routes[1].validators, ["schema.body: ItemSchema"]);
+  });
+
+  it("maps Next.js route handlers to their URL", async () => {
+    const file = write({
+      "next/app/(admin)/api/users/[id]/route.ts": "export async function GET() {}\nexport const DELETE = async () => {};\n",
+    });
+    const routes = await extractRoutes(file);
+    assert.deepEqual(routes.map((route) => `${route.method} ${route.path}`), ["GET /api/users/{id}", "DELETE /api/users/{id}"]);
+    assert.equal(routes[0].framework, "nextjs");
+  });
+});
@@ -0,0 +1,719 @@
+// src/utils/routes.ts
+
+import fs from "fs";
+import path from "path";
+import ts from "typescript";
+import { listImports, listSourceFiles, resolveImport } from "./moduleResolution.js";
+
+/**
+ * Route extraction
+ *   - Parses route files with the TypeScript compiler API (JavaScript too) instead of matching text
+ *   - Express: app/router.METHOD(), router.route(path).METHOD(), app.use(prefix, router) mounts
+ *   - Fastify: fastify.METHOD(path, [options], handler), fastify.route({...}), register(plugin, { prefix })
+ *   - Hono: app.METHOD(), app.route(prefix, subApp), new Hono().basePath(prefix)
+ *   - Next.js: app/**\/route.ts exports (GET, POST, ...) and pages/api/** handlers
+ *   - Mounted paths are followed across files: down through imported routers, and up through the
+ *     files under projectRoot that import the analyzed file
+ *   - Only files accepted by the caller's `include` filter (the workspace sandbox) are read
+ */
+
+// Whether a file may be read; files it rejects are neither analyzed nor quoted
+export type FileFilter = (file: string) => boolean;
+
+export type RouteFramework = "express" | "fastify" | "hono" | "nextjs" | "unknown";
+
+export interface RouteHandler {
+  // Function or expression name ("getUser", "controller.list"), or "<inline>"
+  name: string;
+  file: string;
+  line: number;
+  source?: string;
+}
+
+export interface Route {
+  // Upper-case HTTP method, or ALL for handlers that accept any method
+  method: string;
+  // Full path including every mount prefix, in the framework's own syntax (":id", "{id}")
+  path: string;
+  framework: RouteFramework;
+  file: string;
+  line: number;
+  handler?: RouteHandler;
+  middleware: string[];
+  validators: string[];
+}
+
+const ROUTE_METHODS = ["get", "post", "put", "delete", "patch", "head", "options", "all"];
+const NEXT_METHODS = ["GET", "POST", "PUT", "DELETE", "PATCH", "HEAD", "OPTIONS"];
+
+// Receivers that are treated as routers even when their creation was not seen (function parameters, this.app, ...)
+const ROUTER_NAME_PATTERN = /^(?:app|api|server|router|routes?|fastify|instance|\w*(?:Router|App|Api|Routes))$/i;
+// Middleware that validates input (express-validator, celebrate, zod/valibot/typebox validators, ...)
+const VALIDATOR_PATTERN = /valid|schema|zod|joi|yup|celebrate|checkSchema|\b(?:body|param|query|header|cookie)\(/i;
+// Validation calls inside handler bodies (schema.parse(req.body), Joi's schema.validate(...))
+const VALIDATION_CALL_PATTERN = /\b([A-Za-z_$][\w$]*)\.(safeParse|parseAsync|safeParseAsync|parse|validateAsync|validate)\(/g;
+
+const MAX_SOURCE_LENGTH = 4000;
+const MAX_UPWARD_DEPTH = 4;
+const MAX_DOWNWARD_DEPTH = 6;
+// Entry points analyzed per call, and files read between yields to the event loop while indexing imports
+const MAX_ENTRY_FILES = 20;
+const INDEX_BATCH_SIZE = 50;
+
+// A route as seen inside one file, before mount prefixes from other files are applied
+interface LocalRoute extends Omit<Route, "file" | "framework"> {
+  owner: string;
+}
+
+interface Mount {
+  parent: string;
+  // Either the id of a router in the same file or "file:<absolute path>" for an imported one
+  child: string;
+  prefix: string;
+}
+
+interface FileAnalysis {
+  framework: RouteFramework;
+  routes: LocalRoute[];
+  mounts: Mount[];
+  basePaths: Map<string, string>;
+}
+
+// Join path segments the way routers do ("/api" + "/" + "users/" -> "/api/users")
+function joinPaths(...parts: string[]): string {
+  const joined = parts
+    .map((part) => part.replace(/^\/+|\/+$/g, ""))
+    .filter(Boolean)
+    .join("/");
+  return `/${joined}`;
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length)}…` : text;
+}
+
+function scriptKindFor(file: string): ts.ScriptKind {
+  const extension = path.extname(file);
+  if (extension === ".tsx") return ts.ScriptKind.TSX;
+  if (extension === ".jsx") return ts.ScriptKind.JSX;
+  if ([".js", ".mjs", ".cjs"].includes(extension)) return ts.ScriptKind.JS;
+  return ts.ScriptKind.TS;
+}
+
+function parseFile(file: string): ts.SourceFile | undefined {
+  try {
+    const text = fs.readFileSync(file, "utf-8");
+    return ts.createSourceFile(file, text, ts.ScriptTarget.Latest, true, scriptKindFor(file));
+  } catch {
+    return undefined;
+  }
+}
+
+function lineOf(node: ts.Node, sourceFile: ts.SourceFile): number {
+  return sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+}
+
+function detectFramework(sourceFile: ts.SourceFile): RouteFramework {
+  const modules = sourceFile.statements
+    .filter(ts.isImportDeclaration)
+    .map((statement) => (statement.moduleSpecifier as ts.StringLiteral).text);
+  // require() calls count too
+  sourceFile.forEachChild(function visit(node): void {
+    if (ts.isCallExpression(node) && ts.isIdentifier(node.expression) && node.expression.text === "require"
+      && node.arguments.length === 1 && ts.isStringLiteral(node.arguments[0])) {
+      modules.push(node.arguments[0].text);
+    }
+    node.forEachChild(visit);
+  });
+  if (modules.some((name) => name === "express")) return "express";
+  if (modules.some((name) => name === "fastify" || name.startsWith("fastify-plugin"))) return "fastify";
+  if (modules.some((name) => name === "hono" || name.startsWith("hono/") || name.startsWith("@hono/"))) return "hono";
+  if (modules.some((name) => name.startsWith("next/") || name === "next")) return "nextjs";
+  return "unknown";
+}
+
+function isFunctionLike(node: ts.Node): node is ts.ArrowFunction | ts.FunctionExpression | ts.FunctionDeclaration {
+  return ts.isArrowFunction(node) || ts.isFunctionExpression(node) || ts.isFunctionDeclaration(node);
+}
+
+// Analyze the routes, mounts and base paths declared in one file
+function analyzeFile(file: string, include: FileFilter): FileAnalysis | undefined {
+  const sourceFile = parseFile(file);
+  if (!sourceFile) return undefined;
+
+  const analysis: FileAnalysis = { framework: detectFramework(sourceFile), routes: [], mounts: [], basePaths: new Map() };
+  const strings = new Map<string, string>();
+  const imports = new Map<string, string>();
+  const declarations = new Map<string, ts.Node>();
+  const routers = new Set<string>();
+  // Innermost scope last; maps a name to the id of its declaration ("name@position")
+  const scopes: Map<string, string>[] = [new Map()];
+
+  const idOf = (name: string, node: ts.Node) => `${name}@${node.pos}`;
+  const resolveName = (name: string) => {
+    for (let i = scopes.length - 1; i >= 0; i--) {
+      const id = scopes[i].get(name);
+      if (id) return id;
+    }
+    return name;
+  };
+  const nameOfId = (id: string) => id.split("@")[0];
+
+  // Evaluate a path expression: string literals, templates, concatenation and string constants
+  const evalPath = (node: ts.Node): string | undefined => {
+    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) return node.text;
+    if (ts.isTemplateExpression(node)) {
+      let text = node.head.text;
+      for (const span of node.templateSpans) {
+        text += (evalPath(span.expression) ?? `{${span.expression.getText(sourceFile)}}`) + span.literal.text;
+      }
+      return text;
+    }
+    if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.PlusToken) {
+      const left = evalPath(node.left);
+      const right = evalPath(node.right);
+      return left !== undefined && right !== undefined ? left + right : undefined;
+    }
+    if (ts.isIdentifier(node)) return strings.get(node.text);
+    if (ts.isParenthesizedExpression(node)) return evalPath(node.expression);
+    return undefined;
+  };
+  const isPathLike = (node: ts.Node | undefined): node is ts.Expression => {
+    if (!node) return false;
+    const value = evalPath(node);
+    return value !== undefined && (value === "" || value.startsWith("/") || value === "*");
+  };
+
+  // The identifier a call chain starts from: app.get(...).post(...) -> app
+  const rootIdentifier = (node: ts.Expression): ts.Identifier | undefined => {
+    let current: ts.Expression = node;
+    for (;;) {
+      if (ts.isIdentifier(current)) return current;
+      if (ts.isCallExpression(current) || ts.isPropertyAccessExpression(current) || ts.isParenthesizedExpression(current)
+        || ts.isAwaitExpression(current) || ts.isNonNullExpression(current)) {
+        current = current.expression;
+      } else if (current.kind === ts.SyntaxKind.ThisKeyword) {
+        return undefined;
+      } else {
+        return undefined;
+      }
+    }
+  };
+
+  // `this.app.get(...)` and friends are keyed by their text
+  const ownerOf = (receiver: ts.Expression): string | undefined => {
+    const root = rootIdentifier(receiver);
+    if (root) return resolveName(root.text);
+    if (ts.isPropertyAccessExpression(receiver) && receiver.expression.kind === ts.SyntaxKind.ThisKeyword) {
+      return receiver.getText(sourceFile);
+    }
+    return undefined;
+  };
+  const isRouter = (owner: string) => routers.has(owner)
+    || analysis.mounts.some((mount) => mount.child === owner)
+    || ROUTER_NAME_PATTERN.test(nameOfId(owner).replace(/^this\./, ""));
+
+  // What a mounted expression refers to: a router in this file, an imported file, or nothing known
+  const mountTarget = (node: ts.Expression): string | undefined => {
+    if (isFunctionLike(node)) {
+      const parameter = node.parameters[0];
+      return parameter && ts.isIdentifier(parameter.name) ? idOf(parameter.name.text, parameter) : undefined;
+    }
+    if (ts.isCallExpression(node)) {
+      const callee = node.expression;
+      const argument = node.arguments[0];
+      // require("./users"), import("./users")
+      if ((callee.kind === ts.SyntaxKind.ImportKeyword || (ts.isIdentifier(callee) && callee.text === "require"))
+        && argument && ts.isStringLiteral(argument)) {
+        const resolved = resolveImport(file, argument.text);
+        return resolved ? `file:${resolved}` : undefined;
+      }
+      // usersRouter(), fp(plugin), createRouter(deps)
+      if (ts.isIdentifier(callee) && imports.has(callee.text)) return `file:${imports.get(callee.text)}`;
+      if (argument && ts.isIdentifier(callee) && /^(?:fp|fastifyPlugin)$/.test(callee.text)) return mountTarget(argument);
+      return undefined;
+    }
+    if (ts.isIdentifier(node)) {
+      if (imports.has(node.text) && !scopes.slice(1).some((scope) => scope.has(node.text))) {
+        return `file:${imports.get(node.text)}`;
+      }
+      const id = resolveName(node.text);
+      const declaration = declarations.get(id);
+      // A plugin function declared in this file: its routes are registered on its first parameter
+      if (declaration && isFunctionLike(declaration)) return mountTarget(declaration as ts.Expression);
+      return id;
+    }
+    if (ts.isPropertyAccessExpression(node) || ts.isAwaitExpression(node) || ts.isParenthesizedExpression(node)) {
+      const root = rootIdentifier(node);
+      return root ? mountTarget(root) : undefined;
+    }
+    return undefined;
+  };
+
+  // Describe a handler argument, with its source when it can be found
+  const describeHandler = (node: ts.Expression): RouteHandler => {
+    // asyncHandler(async (req, res) => ...), catchErrors(controller.list)
+    if (ts.isCallExpression(node) && node.arguments.length > 0) {
+      const inner = node.arguments[node.arguments.length - 1];
+      if (isFunctionLike(inner) || ts.isIdentifier(inner) || ts.isPropertyAccessExpression(inner)) {
+        return describeHandler(inner);
+      }
+    }
+    if (isFunctionLike(node)) {
+      return {
+        name: node.name?.getText(sourceFile) ?? "<inline>",
+        file,
+        line: lineOf(node, sourceFile),
+        source: truncate(node.getText(sourceFile), MAX_SOURCE_LENGTH),
+      };
+    }
+    const name = node.getText(sourceFile);
+    const root = rootIdentifier(node);
+    if (root && imports.has(root.text)) {
+      const importedFile = imports.get(root.text)!;
+      const member = ts.isPropertyAccessExpression(node) ? node.name.text : root.text;
+      if (!include(importedFile)) return { name, file: importedFile, line: 1 };
+      return { name, file: importedFile, ...findDeclarationSource(importedFile, member) };
+    }
+    const declaration = root ? declarations.get(resolveName(root.text)) : undefined;
+    if (declaration) {
+      return { name, file, line: lineOf(declaration, sourceFile), source: truncate(declaration.getText(sourceFile), MAX_SOURCE_LENGTH) };
+    }
+    return { name, file, line: lineOf(node, sourceFile) };
+  };
+
+  // Validation calls in the handler body count as validators too
+  const validationCalls = (handler?: RouteHandler): string[] => {
+    if (!handler?.source) return [];
+    return [...new Set([...handler.source.matchAll(VALIDATION_CALL_PATTERN)].map((match) => `${match[1]}.${match[2]}()`))];
+  };
+
+  const addRoute = (owner: string, method: string, routePath: string, node: ts.Node, args: readonly ts.Expression[], options?: ts.ObjectLiteralExpression) => {
+    const middleware: string[] = [];
+    const validators: string[] = [];
+    const flat = args.flatMap((arg) => (ts.isArrayLiteralExpression(arg) ? [...arg.elements] : [arg]));
+    const handlerNode = flat.length > 0 ? flat[flat.length - 1] : undefined;
+    for (const arg of flat.slice(0, -1)) {
+      if (ts.isObjectLiteralExpression(arg)) {
+        options = arg;
+        continue;
+      }
+      const text = truncate(arg.getText(sourceFile), 200);
+      middleware.push(text);
+      if (VALIDATOR_PATTERN.test(text)) validators.push(text);
+    }
+    // Fastify route options: schema.{body,querystring,params,headers,response} and validation hooks
+    let handler = handlerNode && !ts.isObjectLiteralExpression(handlerNode) ? describeHandler(handlerNode) : undefined;
+    for (const property of options?.properties ?? []) {
+      if (!ts.isPropertyAssignment(property) && !ts.isShorthandPropertyAssignment(property)) continue;
+      const key = property.name.getText(sourceFile);
+      const value = ts.isPropertyAssignment(property) ? property.initializer : property.name;
+      if (key === "schema") {
+        if (ts.isObjectLiteralExpression(value)) {
+          for (const part of value.properties) {
+            if (ts.isPropertyAssignment(part) || ts.isShorthandPropertyAssignment(part)) {
+              const partValue = ts.isPropertyAssignment(part) ? part.initializer : part.name;
+              validators.push(`schema.${part.name.getText(sourceFile)}: ${truncate(partValue.getText(sourceFile), 200)}`);
+            }
+          }
+        } else {
+          validators.push(`schema: ${truncate(value.getText(sourceFile), 200)}`);
+        }
+      } else if (["preValidation", "preHandler", "onRequest"].includes(key)) {
+        const text = truncate(value.getText(sourceFile), 200);
+        middleware.push(`${key}: ${text}`);
+        if (VALIDATOR_PATTERN.test(text)) validators.push(text);
+      } else if (key === "handler" && !handler) {
+        handler = describeHandler(value);
+      }
+    }
+    validators.push(...validationCalls(handler));
+    analysis.routes.push({
+      owner,
+      method: method.toUpperCase(),
+      path: routePath,
+      line: lineOf(node, sourceFile),
+      handler,
+      middleware,
+      validators: [...new Set(validators)],
+    });
+  };
+
+  // Record `const x = ...` bindings: string constants, routers, base paths, plugin functions
+  const declareVariable = (declaration: ts.VariableDeclaration) => {
+    if (!ts.isIdentifier(declaration.name)) {
+      // const { usersRouter } = require("./users")
+      if (ts.isObjectBindingPattern(declaration.name) && declaration.initializer && ts.isCallExpression(declaration.initializer)) {
+        const target = mountTarget(declaration.initializer);
+        for (const element of declaration.name.elements) {
+          if (target?.startsWith("file:") && ts.isIdentifier(element.name)) imports.set(element.name.text, target.slice(5));
+        }
+      }
+      return;
+    }
+    const name = declaration.name.text;
+    const id = idOf(name, declaration);
+    scopes[scopes.length - 1].set(name, id);
+    const initializer = declaration.initializer;
+    if (!initializer) return;
+    declarations.set(id, initializer);
+
+    const value = evalPath(initializer);
+    if (value !== undefined && declaration.parent.flags & ts.NodeFlags.Const) strings.set(name, value);
+
+    if (ts.isCallExpression(initializer) && ts.isIdentifier(initializer.expression) && initializer.expression.text === "require") {
+      const target = mountTarget(initializer);
+      if (target?.startsWith("file:")) imports.set(name, target.slice(5));
+    }
+
+    // express(), express.Router(), Router(), new Hono(), Fastify(), with optional .basePath("/api")
+    const text = initializer.getText(sourceFile);
+    if (/^(?:express(?:\.Router)?|Router|fastify|Fastify)\s*\(|^new\s+(?:Hono|OpenAPIHono)\b/.test(text)) {
+      routers.add(id);
+    }
+    let current: ts.Expression = initializer;
+    while (ts.isCallExpression(current) && ts.isPropertyAccessExpression(current.expression)) {
+      if (current.expression.name.text === "basePath" && current.arguments[0] && isPathLike(current.arguments[0])) {
+        analysis.basePaths.set(id, evalPath(current.arguments[0])!);
+        routers.add(id);
+        // app.basePath("/v1") creates a child of app
+        const parent = ownerOf(current.expression.expression);
+        if (parent && parent !== id) analysis.mounts.push({ parent, child: id, prefix: "" });
+      }
+      current = current.expression.expression;
+    }
+  };
+
+  // Hoist top-level declarations and imports so use-before-declaration resolves
+  for (const statement of sourceFile.statements) {
+    if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+      const resolved = resolveImport(file, statement.moduleSpecifier.text);
+      const clause = statement.importClause;
+      if (!resolved || !clause) continue;
+      if (clause.name) imports.set(clause.name.text, resolved);
+      const bindings = clause.namedBindings;
+      if (bindings && ts.isNamespaceImport(bindings)) imports.set(bindings.name.text, resolved);
+      if (bindings && ts.isNamedImports(bindings)) {
+        for (const element of bindings.elements) imports.set(element.name.text, resolved);
+      }
+    } else if (ts.isVariableStatement(statement)) {
+      statement.declarationList.declarations.forEach(declareVariable);
+    } else if (ts.isFunctionDeclaration(statement) && statement.name) {
+      const id = idOf(statement.name.text, statement);
+      scopes[0].set(statement.name.text, id);
+      declarations.set(id, statement);
+    }
+  }
+
+  const visitCall = (node: ts.CallExpression) => {
+    if (!ts.isPropertyAccessExpression(node.expression)) return;
+    const method = node.expression.name.text;
+    const receiver = node.expression.expression;
+    const args = node.arguments;
+
+    if (ROUTE_METHODS.includes(method)) {
+      // router.route("/users").get(list).post(create)
+      let chained: ts.CallExpression | undefined = ts.isCallExpression(receiver) ? receiver : undefined;
+      while (chained && ts.isPropertyAccessExpression(chained.expression) && ROUTE_METHODS.includes(chained.expression.name.text)
+        && !isPathLike(chained.arguments[0])) {
+        chained = ts.isCallExpression(chained.expression.expression) ? chained.expression.expression : undefined;
+      }
+      if (chained && ts.isPropertyAccessExpression(chained.expression) && chained.expression.name.text === "route"
+        && chained.arguments.length === 1 && isPathLike(chained.arguments[0]) && !isPathLike(args[0])) {
+        const owner = ownerOf(chained.expression.expression);
+        if (owner && isRouter(owner)) addRoute(owner, method, evalPath(chained.arguments[0])!, node, args);
+        return;
+      }
+      // app.get("/users", handler); res.get("Content-Type") and app.get("env") have a single argument
+      if (args.length >= 2 && isPathLike(args[0])) {
+        const owner = ownerOf(receiver);
+        if (owner && isRouter(owner)) addRoute(owner, method, evalPath(args[0])!, node, args.slice(1));
+      }
+      return;
+    }
+
+    const owner = ownerOf(receiver);
+    if (!owner || !isRouter(owner)) return;
+
+    if (method === "route") {
+      // Fastify: fastify.route({ method, url, handler, schema })
+      if (args.length === 1 && ts.isObjectLiteralExpression(args[0])) {
+        const options = args[0];
+        const property = (key: string) => options.properties.find(
+          (p): p is ts.PropertyAssignment => ts.isPropertyAssignment(p) && p.name.getText(sourceFile) === key,
+        )?.initializer;
+        const url = property("url") ?? property("path");
+        const methods = property("method");
+        if (!url || !isPathLike(url) || !methods) return;
+        const methodNames = ts.isArrayLiteralExpression(methods)
+          ? methods.elements.map((element) => evalPath(element)).filter((name): name is string => Boolean(name))
+          : [evalPath(methods)].filter((name): name is string => Boolean(name));
+        for (const name of methodNames) addRoute(owner, name, evalPath(url)!, node, [], options);
+        return;
+      }
+      // Hono: app.route("/users", usersApp)
+      if (args.length >= 2 && isPathLike(args[0])) {
+        const child = mountTarget(args[1]);
+        if (child) analysis.mounts.push({ parent: owner, child, prefix: evalPath(args[0])! });
+      }
+      return;
+    }
+
+    // Express: app.use("/api", authMiddleware, apiRouter) / app.use(router)
+    if (method === "use") {
+      const prefix = isPathLike(args[0]) ? evalPath(args[0])! : "";
+      for (const arg of isPathLike(args[0]) ? args.slice(1) : args) {
+        const child = mountTarget(arg);
+        if (child && (child.startsWith("file:") || isRouter(child))) analysis.mounts.push({ parent: owner, child, prefix });
+      }
+      return;
+    }
+
+    // Fastify: fastify.register(plugin, { prefix: "/users" })
+    if (method === "register" && args.length >= 1) {
+      const options = args[1] && ts.isObjectLiteralExpression(args[1]) ? args[1] : undefined;
+      const prefixProperty = options?.properties.find(
+        (p): p is ts.PropertyAssignment => ts.isPropertyAssignment(p) && p.name.getText(sourceFile) === "prefix",
+      );
+      const prefix = prefixProperty && isPathLike(prefixProperty.initializer) ? evalPath(prefixProperty.initializer)! : "";
+      const child = mountTarget(args[0]);
+      if (child) analysis.mounts.push({ parent: owner, child, prefix });
+    }
+  };
+
+  const visit = (node: ts.Node): void => {
+    if (isFunctionLike(node)) {
+      // Parameters shadow outer names (e.g. a plugin's `fastify` parameter)
+      const scope = new Map<string, string>();
+      for (const parameter of node.parameters) {
+        if (ts.isIdentifier(parameter.name)) {
+          scope.set(parameter.name.text, idOf(parameter.name.text, parameter));
+        }
+      }
+      scopes.push(scope);
+      node.forEachChild(visit);
+      scopes.pop();
+      return;
+    }
+    if (ts.isVariableDeclaration(node) && scopes.length > 1) {
+      declareVariable(node);
+    }
+    if (ts.isCallExpression(node)) {
+      visitCall(node);
+    }
+    node.forEachChild(visit);
+  };
+  sourceFile.forEachChild(visit);
+
+  return analysis;
+}
+
+// Source of a top-level function, variable, class method or object property named `name` in another file
+function findDeclarationSource(file: string, name: string): { line: number; source?: string } {
+  const sourceFile = parseFile(file);
+  if (!sourceFile) return { line: 1 };
+  let found: ts.Node | undefined;
+  const visit = (node: ts.Node): void => {
+    if (found) return;
+    const declaredName = (ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node) || ts.isVariableDeclaration(node)
+      || ts.isPropertyAssignment(node) || ts.isPropertyDeclaration(node)) && node.name ? node.name.getText(sourceFile) : undefined;
+    if (declaredName === name || (name === "default" && ts.isExportAssignment(node))) {
+      found = node;
+      return;
+    }
+    node.forEachChild(visit);
+  };
+  sourceFile.forEachChild(visit);
+  // Default imports usually name the default export differently; fall back to it
+  if (!found) {
+    found = sourceFile.statements.find((statement) => ts.isExportAssignment(statement)
+      || (ts.isFunctionDeclaration(statement) && statement.modifiers?.some((m) => m.kind === ts.SyntaxKind.DefaultKeyword)));
+  }
+  return found ? { line: lineOf(found, sourceFile), source: truncate(found.getText(sourceFile), MAX_SOURCE_LENGTH) } : { line: 1 };
+}
+
+// Routes of a file and, recursively, of the routers it mounts, under `prefix`
+function collectRoutes(
+  file: string,
+  prefix: string,
+  framework: RouteFramework,
+  include: FileFilter,
+  visited: Set<string>,
+  depth: number,
+): Route[] {
+  if (visited.has(file) || depth > MAX_DOWNWARD_DEPTH || !include(file)) return [];
+  const analysis = analyzeFile(file, include);
+  if (!analysis) return [];
+  const fileFramework = analysis.framework === "unknown" ? framework : analysis.framework;
+  const nextVisited = new Set(visited).add(file);
+
+  // Every path prefix under which a router of this file is reachable
+  const prefixesOf = (owner: string, seen: Set<string> = new Set()): string[] => {
+    const base = analysis.basePaths.get(owner) ?? "";
+    const parents = analysis.mounts.filter((mount) => mount.child === owner && !seen.has(mount.parent));
+    if (parents.length === 0) return [joinPaths(prefix, base)];
+    return parents.flatMap((mount) =>
+      prefixesOf(mount.parent, new Set(seen).add(owner)).map((parentPrefix) => joinPaths(parentPrefix, mount.prefix, base)));
+  };
+
+  const routes: Route[] = [];
+  for (const { owner, ...route } of analysis.routes) {
+    for (const ownerPrefix of prefixesOf(owner)) {
+      routes.push({ ...route, path: joinPaths(ownerPrefix, route.path), file, framework: fileFramework });
+    }
+  }
+  for (const mount of analysis.mounts.filter((m) => m.child.startsWith("file:"))) {
+    for (const parentPrefix of prefixesOf(mount.parent)) {
+      routes.push(...collectRoutes(mount.child.slice(5), joinPaths(parentPrefix, mount.prefix), fileFramework, include, nextVisited, depth + 1));
+    }
+  }
+  return routes;
+}
+
+// Next.js route handlers: the path comes from the file's location
+function nextRoutePath(file: string): { path: string; pagesApi: boolean } | undefined {
+  const normalized = file.split(path.sep).join("/");
+  // The leading .* makes the innermost app/ or pages/ directory win
+  const appMatch = normalized.match(/^.*\/app\/((?:.+\/)?)route\.[cm]?[jt]sx?$/);
+  const pagesMatch = normalized.match(/^.*\/pages\/(api(?:\/.+)?)\.[cm]?[jt]sx?$/);
+  const relative = appMatch ? appMatch[1] : pagesMatch ? pagesMatch[1] : undefined;
+  if (relative === undefined) return undefined;
+
+  const segments = relative
+    .split("/")
+    .filter((segment) => segment && !/^\(.*\)$/.test(segment) && !segment.startsWith("@"))
+    .filter((segment, index, all) => !(pagesMatch && segment === "index" && index === all.length - 1))
+    .map((segment) => segment.replace(/^\[\[?(\.\.\.)?([^\]]+)\]?\]$/, (_, rest, name) => `{${rest ?? ""}${name}}`));
+  return { path: joinPaths(...segments), pagesApi: Boolean(pagesMatch) };
+}
+
+function extractNextRoutes(file: string, routePath: string, pagesApi: boolean): Route[] {
+  const sourceFile = parseFile(file);
+  if (!sourceFile) return [];
+  const routes: Route[] = [];
+  const add = (method: string, node: ts.Node, name: string) => {
+    const source = truncate(node.getText(sourceFile), MAX_SOURCE_LENGTH);
+    const validators = [...new Set([...source.matchAll(VALIDATION_CALL_PATTERN)].map((match) => `${match[1]}.${match[2]}()`))];
+    routes.push({
+      method,
+      path: routePath,
+      framework: "nextjs",
+      file,
+      line: lineOf(node, sourceFile),
+      handler: { name, file, line: lineOf(node, sourceFile), source },
+      middleware: [],
+      validators,
+    });
+  };
+
+  for (const statement of sourceFile.statements) {
+    const exported = ts.canHaveModifiers(statement) && ts.getModifiers(statement)?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword);
+    const isDefault = ts.canHaveModifiers(statement) && ts.getModifiers(statement)?.some((m) => m.kind === ts.SyntaxKind.DefaultKeyword);
+    if (pagesApi) {
+      // pages/api handlers take every method through one default export
+      if ((ts.isFunctionDeclaration(statement) && isDefault) || ts.isExportAssignment(statement)) {
+        add("ALL", statement, "default");
+      }
+      continue;
+    }
+    if (exported && ts.isFunctionDeclaration(statement) && statement.name && NEXT_METHODS.includes(statement.name.text)) {
+      add(statement.name.text, statement, statement.name.text);
+    }
+    if (exported && ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name) && NEXT_METHODS.includes(declaration.name.text)) {
+          add(declaration.name.text, declaration, declaration.name.text);
+        }
+      }
+    }
+    // export { handler as GET, handler as POST }
+    if (ts.isExportDeclaration(statement) && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+      for (const element of statement.exportClause.elements) {
+        if (NEXT_METHODS.includes(element.name.text)) {
+          const local = (element.propertyName ?? element.name).text;
+          const declaration = sourceFile.statements.find((s) =>
+            (ts.isFunctionDeclaration(s) && s.name?.text === local)
+            || (ts.isVariableStatement(s) && s.declarationList.declarations.some((d) => d.name.getText(sourceFile) === local)));
+          add(element.name.text, declaration ?? element, local);
+        }
+      }
+    }
+  }
+  return routes;
+}
+
+// Files that (transitively) import `file`, up to the top-level entry points. Indexing yields to the event loop
+// between batches, and every importer is walked at most once
+async function findEntryFiles(file: string, projectRoot: string, include: FileFilter): Promise<string[]> {
+  const importers = new Map<string, string[]>();
+  const candidates = listSourceFiles(projectRoot).filter(include);
+  for (const [index, candidate] of candidates.entries()) {
+    if (index > 0 && index % INDEX_BATCH_SIZE === 0) await new Promise((resolve) => setImmediate(resolve));
+    for (const imported of listImports(candidate)) {
+      if (!importers.has(imported)) importers.set(imported, []);
+      importers.get(imported)!.push(candidate);
+    }
+  }
+
+  const entries = new Set<string>();
+  const visited = new Set([file]);
+  let frontier = [file];
+  for (let depth = 0; frontier.length > 0 && entries.size < MAX_ENTRY_FILES; depth++) {
+    const next: string[] = [];
+    for (const current of frontier) {
+      const importedBy = importers.get(current) ?? [];
+      // A file nothing imports is an entry point; so is one at the depth limit
+      if (importedBy.length === 0 || depth >= MAX_UPWARD_DEPTH) {
+        entries.add(current);
+        continue;
+      }
+      for (const parent of importedBy.filter((parent) => !visited.has(parent))) {
+        visited.add(parent);
+        next.push(parent);
+      }
+    }
+    frontier = next;
+  }
+  return [...entries].slice(0, MAX_ENTRY_FILES);
+}
+
+function dedupe(routes: Route[]): Route[] {
+  const seen = new Set<string>();
+  return routes.filter((route) => {
+    const key = `${route.method} ${route.path} ${route.file}:${route.line}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Find the routes defined in `file`, with their full mounted paths when projectRoot is given
+export async function extractRoutes(
+  file: string,
+  options: { projectRoot?: string; include?: FileFilter } = {},
+): Promise<Route[]> {
+  const { include = () => true } = options;
+  const absolute = path.resolve(file);
+  const next = nextRoutePath(absolute);
+  if (next) return extractNextRoutes(absolute, next.path, next.pagesApi);
+
+  // Analyze from the entry points that mount this file, keeping only this file's routes
+  if (options.projectRoot) {
+    const entries = (await findEntryFiles(absolute, path.resolve(options.projectRoot), include)).filter((entry) => entry !== absolute);
+    const mounted = entries
+      .flatMap((entry) => collectRoutes(entry, "", "unknown", include, new Set(), 0))
+      .filter((route) => route.file === absolute);
+    if (mounted.length > 0) return dedupe(mounted);
+  }
+  return dedupe(collectRoutes(absolute, "", "unknown", include, new Set(), 0));
+}
+
+// One-line description of a route for prompts and logs
+export function describeRoute(route: Route): string {
+  const details = [
+    route.handler ? `handler ${route.handler.name} (${path.basename(route.handler.file)}:${route.handler.line})` : undefined,
+    route.middleware.length > 0 ? `middleware: ${route.middleware.join(", ")}` : undefined,
+    route.validators.length > 0 ? `validators: ${route.validators.join(", ")}` : undefined,
+  ].filter(Boolean);
+  return `${route.method} ${route.path}${details.length > 0 ? ` → ${details.join("; ")}` : ""}`;
+}
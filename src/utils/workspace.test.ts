@@ -0,0 +1,68 @@
+// src/utils/workspace.test.ts
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { isInsideWorkspace, resolveWorkspacePath, WorkspacePathError } from "./workspace.js";
+
+describe("workspace sandbox", () => {
+  let dir: string;
+  let root: string;
+  before(() => {
+    dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "mcp-workspace-test-")));
+    root = path.join(dir, "app");
+    fs.mkdirSync(path.join(root, "src"), { recursive: true });
+    fs.mkdirSync(path.join(dir, "app2"));
+    fs.mkdirSync(path.join(dir, "outside"));
+  });
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("allows the root and paths below it", () => {
+    assert.equal(isInsideWorkspace(root, [root]), true);
+    assert.equal(isInsideWorkspace(path.join(root, "src"), [root]), true);
+    assert.equal(resolveWorkspacePath(path.join(root, "src", "..", "src"), "file", [root]), path.join(root, "src"));
+  });
+
+  it("rejects .. traversal out of the root", () => {
+    assert.equal(isInsideWorkspace(path.join(root, ".."), [root]), false);
+    assert.equal(isInsideWorkspace(path.join(root, "src", "..", "..", "outside"), [root]), false);
+    assert.throws(() => resolveWorkspacePath(path.join(root, "..", "outside", "a.ts"), "file", [root]), (error: unknown) => {
+      assert.ok(error instanceof WorkspacePathError);
+      assert.match(error.message, /^file must be inside the workspace/);
+      assert.equal(error.path, path.join(root, "..", "outside", "a.ts"));
+      return true;
+    });
+  });
+
+  it("rejects a symlink inside the root that points outside it", () => {
+    fs.symlinkSync(path.join(dir, "outside"), path.join(root, "escape"));
+    assert.equal(isInsideWorkspace(path.join(root, "escape"), [root]), false);
+    assert.equal(isInsideWorkspace(path.join(root, "escape", "new-file.ts"), [root]), false);
+
+    // A link that stays inside the root is fine
+    fs.symlinkSync(path.join(root, "src"), path.join(root, "source"));
+    assert.equal(isInsideWorkspace(path.join(root, "source", "index.ts"), [root]), true);
+  });
+
+  it("does not treat a sibling directory with the root as prefix as inside it", () => {
+    assert.equal(isInsideWorkspace(path.join(dir, "app2"), [root]), false);
+    assert.equal(isInsideWorkspace(path.join(dir, "app2", "index.ts"), [root]), false);
+    assert.equal(isInsideWorkspace(path.join(dir, "app2"), [root, path.join(dir, "app2")]), true);
+  });
+
+  it("checks paths that do not exist yet by their existing parent", () => {
+    assert.equal(isInsideWorkspace(path.join(root, "tests", "generated", "api.test.ts"), [root]), true);
+    assert.equal(isInsideWorkspace(path.join(dir, "missing", "api.test.ts"), [root]), false);
+    // A root that does not exist yet still contains its own subpaths
+    assert.equal(isInsideWorkspace(path.join(dir, "later", "a.ts"), [path.join(dir, "later")]), true);
+  });
+
+  it("allows every path without roots", () => {
+    assert.equal(isInsideWorkspace("/", []), true);
+    assert.equal(resolveWorkspacePath("relative/file.ts", "file", []), path.resolve("relative/file.ts"));
+  });
+});
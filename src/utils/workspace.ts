@@ -0,0 +1,63 @@
+// src/utils/workspace.ts
+
+import fs from "fs";
+import path from "path";
+import { config } from "../config/config.js";
+
+/**
+ * Workspace sandbox
+ *   - Paths given to tools must resolve inside one of the configured workspace roots (workspace.roots)
+ *   - Symlinks are resolved before the check, so a link inside a root cannot point outside it
+ *   - With no roots configured every path is allowed
+ */
+
+// Thrown when a path resolves outside every workspace root
+export class WorkspacePathError extends Error {
+  constructor(
+    message: string,
+    public readonly path: string,
+  ) {
+    super(message);
+    this.name = "WorkspacePathError";
+  }
+}
+
+// Resolve symlinks in the longest existing prefix of a path (the rest may not exist yet, e.g. an output file)
+function realpathOfExistingPrefix(target: string): string {
+  const missing: string[] = [];
+  let current = target;
+  for (;;) {
+    try {
+      return path.join(fs.realpathSync.native(current), ...missing.reverse());
+    } catch {
+      const parent = path.dirname(current);
+      if (parent === current) return target;
+      missing.push(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+function isWithin(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === "" || (relative !== ".." && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative));
+}
+
+// Whether a path resolves inside a workspace root
+export function isInsideWorkspace(target: string, roots: string[] = config.workspace.roots): boolean {
+  if (roots.length === 0) return true;
+  const real = realpathOfExistingPrefix(path.resolve(target));
+  return roots.some((root) => isWithin(realpathOfExistingPrefix(path.resolve(root)), real));
+}
+
+// Resolve a tool argument to an absolute path, rejecting it when it escapes the workspace
+export function resolveWorkspacePath(target: string, argumentName: string, roots: string[] = config.workspace.roots): string {
+  const resolved = path.resolve(target);
+  if (!isInsideWorkspace(resolved, roots)) {
+    throw new WorkspacePathError(
+      `${argumentName} must be inside the workspace (${roots.join(", ")}): ${target}`,
+      target,
+    );
+  }
+  return resolved;
+}